@@ -0,0 +1,573 @@
+/**
+ * HuePass Command-Line Tool
+ * Runs the contrast, palette and CVD utilities from Node for build scripts
+ *
+ * Exit codes: 0 when every check passes, 1 when a check fails, 2 for usage or input errors.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { getContrastRatio, rgbToHex, formatContrastRatio, checkWCAGCompliance } from '../scripts/contrast';
+import type { RGB, ContrastResult } from '../scripts/contrast';
+import { getAPCAContrast, formatAPCAContrast, getAPCALevel, APCA_THRESHOLDS } from '../scripts/apca';
+import { parseColor } from '../scripts/color-parser';
+import { simulateCVD, CVD_TYPES } from '../scripts/color-blindness';
+import {
+  generateContrastMatrix,
+  calculatePairAPCA,
+  exportAsCSS,
+  exportAsJSON,
+  exportAsTailwind,
+  exportAsSCSS,
+  exportAsDesignTokens,
+  exportAsTokensStudio,
+  exportAsFigmaVariables,
+  exportAsSwift,
+  exportAsAndroidXML,
+  exportAsSwiftUI,
+  exportAsCompose,
+  exportAsFlutter,
+  exportAsMAUI,
+  exportAsASE,
+  exportAsGPL,
+  exportAsProcreate,
+  exportAsSwatchSheet,
+  exportContrastReport,
+  getPaletteColorRgb,
+  getPaletteColorValue,
+  analyzeDistinguishability,
+  checkPairings,
+  describePairingRequirement,
+  getColorModes,
+} from '../scripts/palette';
+import type { PaletteColor, PalettePairing, ContrastAlgorithm, CSSModeStrategy } from '../scripts/palette';
+import { importPaletteFile, IMPORT_FORMATS } from '../scripts/importers';
+import type { ImportFormat, ImportResult } from '../scripts/importers';
+import { createAuditReport, exportAuditReportHTML, exportAuditReportJSON } from '../scripts/audit-report';
+import { lintStylesheets, formatLintText, formatLintJSON, formatLintSARIF } from '../scripts/stylesheet-lint';
+import type { LintPair } from '../scripts/stylesheet-lint';
+import { getColorSuggestions } from '../scripts/suggestions';
+import type { SuggestionTarget } from '../scripts/suggestions';
+
+const VERSION = '0.0.1';
+
+const USAGE = `Usage: huepass <command> [options]
+
+Commands:
+  check <foreground> <background>   Check a color pair against a contrast level
+  matrix <palette-file>             Contrast of every pair in a palette
+  export <palette-file>             Convert a palette to another format
+  simulate <color>                  Show a color under color vision deficiencies
+  lint <stylesheet...>              Find failing text/background pairs in CSS or SCSS
+
+Options:
+  --level <level>       check/matrix/lint: aa, aaa, aa-large, aaa-large, ui or apca (default: aa)
+  --algorithm <name>    matrix: wcag or apca (default: wcag)
+  --strict              matrix: exit 1 when any pair fails the level, or any declared pairing
+                        fails its own requirement in any mode when the palette has pairings
+  --format <format>     export: ${Object.keys(getExporters()).join(', ')}
+                        lint: text, json or sarif (default: text)
+  --css-modes <how>     export: dark and high contrast CSS as media or class (default: media)
+  --input <format>      Palette file format: ${IMPORT_FORMATS.map((f) => f.id).join(', ')} (default: detected)
+  --output <file>       export/lint: write to a file instead of stdout
+  --pairs <file>        lint: JSON list of {"foreground", "background"} selectors set on different rules
+  --verbose             lint: also list passing pairs
+  --cvd <type>          simulate: ${CVD_TYPES.map((t) => t.id).join(', ')} or all (default: all)
+  --severity <0-100>    simulate: severity for the anomalous types (default: 100)
+  --json                Print machine-readable JSON
+  -h, --help            Show this help
+  -v, --version         Show the version
+
+Colors accept any CSS syntax: hex, named colors, rgb(), hsl(), oklch() and more.
+Palette files are any format the palette builder imports, including its own exports.`;
+
+type CheckLevel = 'aa' | 'aaa' | 'aa-large' | 'aaa-large' | 'ui' | 'apca';
+
+// WCAG result field checked for each level; APCA is checked separately
+const CHECK_LEVELS: Record<Exclude<CheckLevel, 'apca'>, keyof Omit<ContrastResult, 'ratio' | 'ratioString'>> = {
+  aa: 'normalTextAA',
+  aaa: 'normalTextAAA',
+  'aa-large': 'largeTextAA',
+  'aaa-large': 'largeTextAAA',
+  ui: 'uiComponents',
+};
+
+// Suggestion target with the same threshold as each level
+const SUGGESTION_FOR_LEVEL: Record<CheckLevel, SuggestionTarget> = {
+  aa: 'aa',
+  aaa: 'aaa',
+  'aa-large': 'ui',
+  'aaa-large': 'aa',
+  ui: 'ui',
+  apca: 'apca',
+};
+
+interface CliOptions {
+  level?: string;
+  algorithm?: string;
+  strict?: boolean;
+  format?: string;
+  input?: string;
+  output?: string;
+  cvd?: string;
+  severity?: string;
+  pairs?: string;
+  cssModes?: string;
+  verbose?: boolean;
+  json?: boolean;
+  help?: boolean;
+  version?: boolean;
+}
+
+/**
+ * Error for bad arguments or unreadable input, reported with exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Exporters by --format name; dtcg is an alias for the Design Tokens export
+ * Formats that cannot hold pairings ignore them. Swatch files such as ASE
+ * are binary.
+ */
+function getExporters(
+  cssModes: CSSModeStrategy = 'media'
+): Record<string, (colors: PaletteColor[], pairings: PalettePairing[]) => string | Uint8Array> {
+  return {
+    css: (colors, pairings) => exportAsCSS(colors, pairings, cssModes),
+    scss: exportAsSCSS,
+    tailwind: exportAsTailwind,
+    tokens: exportAsDesignTokens,
+    dtcg: exportAsDesignTokens,
+    'tokens-studio': exportAsTokensStudio,
+    figma: exportAsFigmaVariables,
+    json: exportAsJSON,
+    swift: exportAsSwift,
+    android: exportAsAndroidXML,
+    swiftui: exportAsSwiftUI,
+    compose: exportAsCompose,
+    flutter: exportAsFlutter,
+    maui: exportAsMAUI,
+    ase: exportAsASE,
+    gpl: (colors) => exportAsGPL(colors),
+    procreate: (colors) => exportAsProcreate(colors),
+    svg: (colors) => exportAsSwatchSheet(colors),
+    report: (colors, pairings) => exportContrastReport(colors, generateContrastMatrix(colors), 'wcag', pairings),
+    'audit-html': (colors, pairings) => exportAuditReportHTML(createAuditReport(colors, pairings)),
+    'audit-json': (colors, pairings) => exportAuditReportJSON(createAuditReport(colors, pairings)),
+  };
+}
+
+/**
+ * Parse a color argument or fail with a usage error
+ */
+function readColor(value: string | undefined, label: string): RGB {
+  if (!value) {
+    throw new UsageError(`Missing ${label} color`);
+  }
+  const rgb = parseColor(value);
+  if (!rgb) {
+    throw new UsageError(`Invalid ${label} color: ${value}`);
+  }
+  return rgb;
+}
+
+/**
+ * Read the --level option
+ */
+function readLevel(value: string | undefined): CheckLevel {
+  const level = (value ?? 'aa').toLowerCase();
+  if (level !== 'apca' && !(level in CHECK_LEVELS)) {
+    throw new UsageError(`Unknown level: ${value}`);
+  }
+  return level as CheckLevel;
+}
+
+/**
+ * Check whether a pair passes a level
+ */
+function passesLevel(foreground: RGB, background: RGB, level: CheckLevel): boolean {
+  if (level === 'apca') {
+    return Math.abs(getAPCAContrast(foreground, background)) >= APCA_THRESHOLDS.bodyText;
+  }
+  return checkWCAGCompliance(getContrastRatio(foreground, background))[CHECK_LEVELS[level]];
+}
+
+/**
+ * Read a text file or fail with a usage error
+ */
+function readText(path: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write command output to --output or stdout
+ * Binary output is written as is, without a trailing newline.
+ */
+function writeOutput(text: string | Uint8Array, output: string | undefined): void {
+  if (typeof text !== 'string') {
+    if (output) {
+      writeFileSync(output, text);
+    } else {
+      process.stdout.write(text);
+    }
+  } else if (output) {
+    writeFileSync(output, text.endsWith('\n') ? text : `${text}\n`);
+  } else {
+    console.log(text);
+  }
+}
+
+/**
+ * Load a palette file through the importers
+ * Skipped lines are reported on stderr so stdout stays parseable.
+ */
+function readPalette(path: string | undefined, format: string | undefined): ImportResult {
+  if (!path) {
+    throw new UsageError('Missing palette file');
+  }
+  if (format && !IMPORT_FORMATS.some((f) => f.id === format)) {
+    throw new UsageError(`Unknown input format: ${format}`);
+  }
+
+  let data: Uint8Array;
+  try {
+    data = readFileSync(path);
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+
+  const result = importPaletteFile(data, format as ImportFormat | undefined);
+  for (const issue of result.skipped) {
+    console.error(`${path}${issue.line ? `:${issue.line}` : ''}: skipped ${issue.text} (${issue.reason})`);
+  }
+  if (result.colors.length === 0) {
+    throw new UsageError(`No colors found in ${path}`);
+  }
+  return result;
+}
+
+/**
+ * huepass check <foreground> <background>
+ */
+function runCheck(args: string[], options: CliOptions): number {
+  const foreground = readColor(args[0], 'foreground');
+  const background = readColor(args[1], 'background');
+  const level = readLevel(options.level);
+
+  const ratio = getContrastRatio(foreground, background);
+  const compliance = checkWCAGCompliance(ratio);
+  const lc = getAPCAContrast(foreground, background);
+  const passes = passesLevel(foreground, background, level);
+  const suggestions = passes
+    ? []
+    : getColorSuggestions(foreground, background, { targets: [SUGGESTION_FOR_LEVEL[level]] });
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          foreground: rgbToHex(foreground).toUpperCase(),
+          background: rgbToHex(background).toUpperCase(),
+          level,
+          passes,
+          ratio: Number(ratio.toFixed(2)),
+          wcag: {
+            normalTextAA: compliance.normalTextAA,
+            normalTextAAA: compliance.normalTextAAA,
+            largeTextAA: compliance.largeTextAA,
+            largeTextAAA: compliance.largeTextAAA,
+            uiComponents: compliance.uiComponents,
+          },
+          apca: { lc: Number(lc.toFixed(1)), level: getAPCALevel(lc).level },
+          suggestions: suggestions.map((s) => ({
+            target: s.target,
+            adjusted: s.adjusted,
+            hex: s.hex,
+            ratio: Number(s.ratio.toFixed(2)),
+            deltaE: Number(s.deltaE.toFixed(2)),
+          })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    const mark = (value: boolean) => (value ? 'pass' : 'fail');
+    console.log(`${rgbToHex(foreground).toUpperCase()} on ${rgbToHex(background).toUpperCase()}`);
+    console.log(`  Contrast ratio    ${formatContrastRatio(ratio)}`);
+    console.log(`  Normal text       AA ${mark(compliance.normalTextAA)}, AAA ${mark(compliance.normalTextAAA)}`);
+    console.log(`  Large text        AA ${mark(compliance.largeTextAA)}, AAA ${mark(compliance.largeTextAAA)}`);
+    console.log(`  UI components     ${mark(compliance.uiComponents)}`);
+    console.log(`  APCA              ${formatAPCAContrast(lc)} (${getAPCALevel(lc).label})`);
+    console.log(`${passes ? 'PASS' : 'FAIL'} ${level.toUpperCase()}`);
+    for (const s of suggestions) {
+      console.log(`  Try ${s.adjusted} ${s.hex} (${formatContrastRatio(s.ratio)}, ΔE ${s.deltaE.toFixed(1)})`);
+    }
+  }
+
+  return passes ? 0 : 1;
+}
+
+/**
+ * huepass matrix <palette-file>
+ */
+function runMatrix(args: string[], options: CliOptions): number {
+  const { colors, pairings } = readPalette(args[0], options.input);
+  const level = readLevel(options.level);
+  const algorithm = (options.algorithm ?? 'wcag') as ContrastAlgorithm;
+  if (algorithm !== 'wcag' && algorithm !== 'apca') {
+    throw new UsageError(`Unknown algorithm: ${options.algorithm}`);
+  }
+
+  const matrix = generateContrastMatrix(colors, algorithm);
+  const pairs = matrix.flat().filter((cell) => cell.foregroundId !== cell.backgroundId);
+  const byId = new Map(colors.map((c) => [c.id, c]));
+  const rgb = (id: string) => getPaletteColorRgb(byId.get(id)!)!;
+  const failing = pairs.filter((cell) => !passesLevel(rgb(cell.foregroundId), rgb(cell.backgroundId), level));
+  const pairingResults = getColorModes(colors).flatMap((mode) =>
+    checkPairings(colors, pairings, mode).map((result) => ({ ...result, mode }))
+  );
+  const failingPairings = pairingResults.filter((result) => !result.passes);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          level,
+          algorithm,
+          colors: colors.map((c) => ({ name: c.name, value: getPaletteColorValue(c) })),
+          pairs: pairs.map((cell) => {
+            const foreground = byId.get(cell.foregroundId)!;
+            const background = byId.get(cell.backgroundId)!;
+            return {
+              foreground: foreground.name,
+              background: background.name,
+              ratio: Number(cell.ratio.toFixed(2)),
+              lc: Number(calculatePairAPCA(foreground, background).toFixed(1)),
+              passes: !failing.includes(cell),
+            };
+          }),
+          failing: failing.length,
+          pairings: pairingResults.map((result) => ({
+            foreground: result.foreground.name,
+            background: result.background.name,
+            requirement: describePairingRequirement(result.pairing),
+            mode: result.mode,
+            ratio: Number(result.ratio.toFixed(2)),
+            lc: Number(result.lc.toFixed(1)),
+            passes: result.passes,
+          })),
+          failingPairings: failingPairings.length,
+          cvdIssues: analyzeDistinguishability(colors).map((issue) => ({
+            colors: [issue.first.name, issue.second.name],
+            cvd: issue.cvdType,
+            deltaE: Number(issue.deltaE.toFixed(1)),
+          })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(exportContrastReport(colors, matrix, algorithm, pairings));
+    if (pairingResults.length > 0) {
+      const passing = pairingResults.length - failingPairings.length;
+      console.log(`\n${passing} of ${pairingResults.length} declared pairing checks pass their requirement`);
+    } else {
+      console.log(`\n${pairs.length - failing.length} of ${pairs.length} pairs pass ${level.toUpperCase()}`);
+    }
+  }
+
+  // Declared pairings replace the blanket level for --strict
+  const strictFailures = pairingResults.length > 0 ? failingPairings.length : failing.length;
+  return options.strict && strictFailures > 0 ? 1 : 0;
+}
+
+/**
+ * huepass export <palette-file> --format <format>
+ */
+function runExport(args: string[], options: CliOptions): number {
+  const { colors, pairings } = readPalette(args[0], options.input);
+  const cssModes = options.cssModes ?? 'media';
+  if (cssModes !== 'media' && cssModes !== 'class') {
+    throw new UsageError(`Unknown CSS mode strategy: ${cssModes}`);
+  }
+  const exporters = getExporters(cssModes);
+  const format = options.format ?? '';
+  if (!(format in exporters)) {
+    throw new UsageError(`Unknown or missing export format: ${format || '(none)'}`);
+  }
+
+  const code = exporters[format](colors, pairings);
+  if (options.json) {
+    if (options.output) writeOutput(code, options.output);
+    const result = options.output
+      ? { output: options.output }
+      : typeof code === 'string' ? { code } : { base64: Buffer.from(code).toString('base64') };
+    console.log(JSON.stringify({ format, colors: colors.length, ...result }, null, 2));
+  } else {
+    writeOutput(code, options.output);
+  }
+
+  return 0;
+}
+
+/**
+ * huepass simulate <color> --cvd <type>
+ */
+function runSimulate(args: string[], options: CliOptions): number {
+  const rgb = readColor(args[0], 'input');
+  const hex = rgbToHex(rgb).toUpperCase();
+  const severity = options.severity === undefined ? 100 : Number(options.severity);
+  if (!Number.isFinite(severity) || severity < 0 || severity > 100) {
+    throw new UsageError(`Severity must be between 0 and 100: ${options.severity}`);
+  }
+
+  const cvd = options.cvd ?? 'all';
+  const types = cvd === 'all' ? CVD_TYPES : CVD_TYPES.filter((t) => t.id === cvd);
+  if (types.length === 0) {
+    throw new UsageError(`Unknown CVD type: ${cvd}`);
+  }
+
+  const results = types.map((type) => ({
+    type: type.id,
+    name: type.name,
+    hex: simulateCVD(hex, type.id, severity),
+    ...(type.adjustable ? { severity } : {}),
+  }));
+
+  if (options.json) {
+    console.log(JSON.stringify({ input: hex, simulations: results }, null, 2));
+  } else {
+    const width = Math.max(...results.map((r) => r.name.length));
+    console.log(hex);
+    for (const result of results) {
+      const note = result.severity !== undefined ? ` (${result.severity}%)` : '';
+      console.log(`  ${result.name.padEnd(width)}  ${result.hex}${note}`);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * huepass lint <stylesheet...>
+ */
+function runLint(args: string[], options: CliOptions): number {
+  if (args.length === 0) {
+    throw new UsageError('Missing stylesheet');
+  }
+  const level = readLevel(options.level);
+  if (level === 'apca') {
+    throw new UsageError('lint checks WCAG levels only');
+  }
+
+  const format = options.json ? 'json' : (options.format ?? 'text');
+  if (!['text', 'json', 'sarif'].includes(format)) {
+    throw new UsageError(`Unknown lint format: ${format}`);
+  }
+
+  let pairs: LintPair[] = [];
+  if (options.pairs) {
+    try {
+      pairs = JSON.parse(readText(options.pairs));
+    } catch (error) {
+      if (error instanceof UsageError) throw error;
+      throw new UsageError(`Invalid pairs file ${options.pairs}: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(pairs) || pairs.some((p) => typeof p?.foreground !== 'string' || typeof p?.background !== 'string')) {
+      throw new UsageError(`Pairs file ${options.pairs} must be a list of {"foreground", "background"} selectors`);
+    }
+  }
+
+  const report = lintStylesheets(
+    args.map((path) => ({ path, source: readText(path) })),
+    { criterion: CHECK_LEVELS[level], pairs }
+  );
+
+  const text =
+    format === 'sarif'
+      ? formatLintSARIF(report)
+      : format === 'json'
+        ? formatLintJSON(report)
+        : formatLintText(report, options.verbose);
+  writeOutput(text, options.output);
+
+  return report.findings.some((f) => !f.passes) ? 1 : 0;
+}
+
+/**
+ * Run the CLI and return the exit code
+ */
+export function main(argv: string[]): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        level: { type: 'string' },
+        algorithm: { type: 'string' },
+        strict: { type: 'boolean' },
+        format: { type: 'string' },
+        input: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        cvd: { type: 'string' },
+        severity: { type: 'string' },
+        pairs: { type: 'string' },
+        'css-modes': { type: 'string' },
+        verbose: { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { 'css-modes': cssModes, ...values } = parsed.values;
+  const options: CliOptions = { ...values, cssModes };
+  const [command, ...args] = parsed.positionals;
+
+  if (options.version) {
+    console.log(VERSION);
+    return 0;
+  }
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  const commands: Record<string, (args: string[], options: CliOptions) => number> = {
+    check: runCheck,
+    matrix: runMatrix,
+    export: runExport,
+    simulate: runSimulate,
+    lint: runLint,
+  };
+
+  if (!commands[command]) {
+    console.error(`Unknown command: ${command}`);
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    return commands[command](args, options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`huepass: ${error.message}`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
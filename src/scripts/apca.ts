@@ -0,0 +1,218 @@
+/**
+ * APCA (Accessible Perceptual Contrast Algorithm) Utilities
+ * Based on APCA-W3 0.0.98G-4g, the contrast method proposed for WCAG 3
+ */
+
+import { compositeColors, isOpaque, getBackdropSamples } from './contrast';
+import type { RGB } from './contrast';
+
+export interface APCAResult {
+  lc: number;
+  lcString: string;
+  polarity: 'dark-on-light' | 'light-on-dark';
+  bodyText: boolean;
+  contentText: boolean;
+  largeText: boolean;
+  nonText: boolean;
+}
+
+export interface APCALevel {
+  level: 'Body' | 'Content' | 'Large' | 'Non-text' | 'Fail';
+  label: string;
+}
+
+// APCA Lc thresholds (absolute values) for common use cases
+export const APCA_THRESHOLDS = {
+  bodyText: 75,
+  contentText: 60,
+  largeText: 45,
+  nonText: 30,
+} as const;
+
+// Font weights covered by the font lookup table
+export const APCA_FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+export type APCAFontWeight = (typeof APCA_FONT_WEIGHTS)[number];
+
+/**
+ * APCA 0.0.98G-4g constants
+ */
+const MAIN_TRC = 2.4;
+const COEFFICIENTS = [0.2126729, 0.7151522, 0.072175];
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+const BLK_THRS = 0.022;
+const BLK_CLMP = 1.414;
+const SCALE = 1.14;
+const LO_OFFSET = 0.027;
+const LO_CLIP = 0.1;
+const DELTA_Y_MIN = 0.0005;
+
+/**
+ * Minimum font size (px) per weight for each Lc value, from the APCA font lookup table.
+ * Each row is [Lc, size@100, size@200, ..., size@900]. A size of 999 means the
+ * contrast is not usable for text, 777 means non-text elements only.
+ */
+const FONT_LOOKUP: number[][] = [
+  [0, 999, 999, 999, 999, 999, 999, 999, 999, 999],
+  [10, 999, 999, 999, 999, 999, 999, 999, 999, 999],
+  [15, 777, 777, 777, 777, 777, 777, 777, 777, 777],
+  [20, 777, 777, 777, 777, 777, 777, 777, 777, 777],
+  [25, 777, 777, 777, 120, 120, 108, 96, 96, 96],
+  [30, 777, 777, 120, 108, 108, 96, 72, 72, 72],
+  [35, 777, 120, 108, 96, 72, 60, 48, 48, 48],
+  [40, 120, 108, 96, 60, 48, 42, 32, 32, 32],
+  [45, 108, 96, 72, 42, 32, 28, 24, 24, 24],
+  [50, 96, 72, 60, 32, 28, 24, 21, 21, 21],
+  [55, 80, 60, 48, 28, 24, 21, 18, 18, 18],
+  [60, 72, 48, 42, 24, 21, 18, 16, 16, 18],
+  [65, 68, 46, 32, 21.75, 19, 17, 15, 16, 18],
+  [70, 64, 44, 28, 19.5, 18, 16, 14.5, 16, 18],
+  [75, 60, 42, 24, 18, 16, 15, 14, 16, 18],
+  [80, 56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18],
+  [85, 52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18],
+  [90, 48, 32, 21, 16, 15.5, 14.5, 14, 16, 18],
+  [95, 45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18],
+  [100, 42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18],
+  [105, 39, 25, 18, 14.5, 14, 13, 12, 16, 18],
+];
+
+const NOT_USABLE = 999;
+const NON_TEXT_ONLY = 777;
+
+/**
+ * Calculate APCA screen luminance (Y) of a color
+ * Uses a simple 2.4 exponent rather than the piecewise sRGB curve. Channels
+ * below zero, from wide-gamut colors, mirror the curve.
+ */
+export function getAPCALuminance(rgb: RGB): number {
+  const channels = [rgb.r, rgb.g, rgb.b].map((c) => Math.sign(c) * Math.pow(Math.abs(c) / 255, MAIN_TRC));
+  return COEFFICIENTS[0] * channels[0] + COEFFICIENTS[1] * channels[1] + COEFFICIENTS[2] * channels[2];
+}
+
+/**
+ * Soft clamp luminance near black
+ */
+function clampBlack(y: number): number {
+  return y > BLK_THRS ? y : y + Math.pow(BLK_THRS - y, BLK_CLMP);
+}
+
+/**
+ * Calculate the APCA lightness contrast (Lc) of text on a background
+ * Returns a signed value of roughly -108 to 106: positive for dark text on a
+ * light background, negative for light text on a dark background.
+ * Translucent text is composited over the background; a translucent background
+ * has an unknown backdrop, so the weakest Lc over the backdrop samples is returned.
+ */
+export function getAPCAContrast(text: RGB, background: RGB): number {
+  if (!isOpaque(background)) {
+    return getBackdropSamples()
+      .map((backdrop) => getAPCAContrast(text, compositeColors(background, backdrop)))
+      .reduce((weakest, lc) => (Math.abs(lc) < Math.abs(weakest) ? lc : weakest));
+  }
+
+  const txtY = clampBlack(getAPCALuminance(compositeColors(text, background)));
+  const bgY = clampBlack(getAPCALuminance(background));
+
+  if (Math.abs(bgY - txtY) < DELTA_Y_MIN) {
+    return 0;
+  }
+
+  let output: number;
+  if (bgY > txtY) {
+    // Dark text on light background
+    const sapc = (Math.pow(bgY, NORM_BG) - Math.pow(txtY, NORM_TXT)) * SCALE;
+    output = sapc < LO_CLIP ? 0 : sapc - LO_OFFSET;
+  } else {
+    // Light text on dark background
+    const sapc = (Math.pow(bgY, REV_BG) - Math.pow(txtY, REV_TXT)) * SCALE;
+    output = sapc > -LO_CLIP ? 0 : sapc + LO_OFFSET;
+  }
+
+  return output * 100;
+}
+
+/**
+ * Format an APCA Lc value for display
+ */
+export function formatAPCAContrast(lc: number): string {
+  return `Lc ${lc.toFixed(1)}`;
+}
+
+/**
+ * Check APCA use-case levels for an Lc value
+ */
+export function checkAPCACompliance(lc: number): APCAResult {
+  const abs = Math.abs(lc);
+  return {
+    lc,
+    lcString: formatAPCAContrast(lc),
+    polarity: lc >= 0 ? 'dark-on-light' : 'light-on-dark',
+    bodyText: abs >= APCA_THRESHOLDS.bodyText,
+    contentText: abs >= APCA_THRESHOLDS.contentText,
+    largeText: abs >= APCA_THRESHOLDS.largeText,
+    nonText: abs >= APCA_THRESHOLDS.nonText,
+  };
+}
+
+/**
+ * Get the highest APCA use-case level met by an Lc value
+ */
+export function getAPCALevel(lc: number): APCALevel {
+  const abs = Math.abs(lc);
+  if (abs >= APCA_THRESHOLDS.bodyText) {
+    return { level: 'Body', label: 'Body text' };
+  }
+  if (abs >= APCA_THRESHOLDS.contentText) {
+    return { level: 'Content', label: 'Content text' };
+  }
+  if (abs >= APCA_THRESHOLDS.largeText) {
+    return { level: 'Large', label: 'Large text' };
+  }
+  if (abs >= APCA_THRESHOLDS.nonText) {
+    return { level: 'Non-text', label: 'Non-text' };
+  }
+  return { level: 'Fail', label: 'Fail' };
+}
+
+/**
+ * Get the minimum usable font size (px) for an Lc value and font weight
+ * Returns null when the contrast is too low for text at that weight.
+ * Interpolates linearly between rows of the lookup table.
+ */
+export function getAPCAMinFontSize(lc: number, weight: APCAFontWeight): number | null {
+  const abs = Math.min(Math.abs(lc), FONT_LOOKUP[FONT_LOOKUP.length - 1][0]);
+  const column = APCA_FONT_WEIGHTS.indexOf(weight) + 1;
+
+  let index = 0;
+  while (index < FONT_LOOKUP.length - 1 && FONT_LOOKUP[index + 1][0] <= abs) {
+    index++;
+  }
+
+  const lower = FONT_LOOKUP[index];
+  const lowerSize = lower[column];
+  if (lowerSize === NOT_USABLE || lowerSize === NON_TEXT_ONLY) {
+    return null;
+  }
+
+  const upper = FONT_LOOKUP[index + 1];
+  if (!upper || upper[column] >= NON_TEXT_ONLY) {
+    return lowerSize;
+  }
+
+  const t = (abs - lower[0]) / (upper[0] - lower[0]);
+  return Math.round((lowerSize + (upper[column] - lowerSize) * t) * 100) / 100;
+}
+
+/**
+ * Get the minimum usable font size (px) for every font weight
+ */
+export function getAPCAFontSizes(lc: number): Record<APCAFontWeight, number | null> {
+  const sizes = {} as Record<APCAFontWeight, number | null>;
+  for (const weight of APCA_FONT_WEIGHTS) {
+    sizes[weight] = getAPCAMinFontSize(lc, weight);
+  }
+  return sizes;
+}
@@ -0,0 +1,470 @@
+/**
+ * Accessibility Audit Report
+ * Collects a palette's contrast results, fixes and CVD simulations into one
+ * report for handoff, rendered as self-contained HTML or archived as JSON
+ */
+
+import {
+  checkWCAGCompliance,
+  compositeColors,
+  findPassingColor,
+  formatContrastRatio,
+  getContrastRatio,
+  isOpaque,
+  rgbToHex,
+  WCAG_THRESHOLDS,
+} from './contrast';
+import { simulateCVD, getCVDSeverity, CVD_TYPES } from './color-blindness';
+import type { CVDType } from './color-blindness';
+import {
+  analyzeDistinguishability,
+  calculatePairContrast,
+  checkPairings,
+  describePairingRequirement,
+  formatPairingValue,
+  getColorModes,
+  getModePalette,
+  getPaletteColorRgb,
+  getPaletteColorValue,
+  getPaletteScale,
+  COLOR_MODES,
+  DISTINGUISHABILITY_THRESHOLD,
+} from './palette';
+import type { ColorMode, PaletteColor, PalettePairing } from './palette';
+
+export type AuditCheck = keyof typeof WCAG_THRESHOLDS;
+
+export interface WCAGCriterion {
+  id: string;
+  name: string;
+  level: 'AA' | 'AAA';
+  summary: string;
+  url: string;
+}
+
+export const WCAG_CRITERIA: WCAGCriterion[] = [
+  {
+    id: '1.4.3',
+    name: 'Contrast (Minimum)',
+    level: 'AA',
+    summary: `Text ${WCAG_THRESHOLDS.normalTextAA}:1, large text ${WCAG_THRESHOLDS.largeTextAA}:1`,
+    url: 'https://www.w3.org/WAI/WCAG21/Understanding/contrast-minimum.html',
+  },
+  {
+    id: '1.4.6',
+    name: 'Contrast (Enhanced)',
+    level: 'AAA',
+    summary: `Text ${WCAG_THRESHOLDS.normalTextAAA}:1, large text ${WCAG_THRESHOLDS.largeTextAAA}:1`,
+    url: 'https://www.w3.org/WAI/WCAG21/Understanding/contrast-enhanced.html',
+  },
+  {
+    id: '1.4.11',
+    name: 'Non-text Contrast',
+    level: 'AA',
+    summary: `User interface components and graphics ${WCAG_THRESHOLDS.uiComponents}:1`,
+    url: 'https://www.w3.org/WAI/WCAG21/Understanding/non-text-contrast.html',
+  },
+];
+
+export interface AuditCheckInfo {
+  id: AuditCheck;
+  name: string;
+  criterion: string; // WCAG success criterion the check belongs to
+}
+
+export const AUDIT_CHECKS: AuditCheckInfo[] = [
+  { id: 'normalTextAA', name: 'AA', criterion: '1.4.3' },
+  { id: 'largeTextAA', name: 'AA Large', criterion: '1.4.3' },
+  { id: 'normalTextAAA', name: 'AAA', criterion: '1.4.6' },
+  { id: 'largeTextAAA', name: 'AAA Large', criterion: '1.4.6' },
+  { id: 'uiComponents', name: 'UI', criterion: '1.4.11' },
+];
+
+export interface AuditSwatch {
+  name: string;
+  value: string; // Light value, 8-digit hex when translucent
+  modes: Partial<Record<Exclude<ColorMode, 'light'>, string>>;
+  scale?: Array<{ step: number; hex: string }>;
+  simulations: Partial<Record<CVDType, string>>; // Light value as seen with each CVD type
+}
+
+export interface AuditPair {
+  foreground: string;
+  background: string;
+  foregroundValue: string;
+  backgroundValue: string;
+  ratio: number;
+  results: Record<AuditCheck, boolean>;
+  suggestion?: { foreground: string; ratio: number }; // Closest foreground passing normal text AA
+}
+
+export interface AuditMatrix {
+  mode: ColorMode;
+  pairs: AuditPair[];
+}
+
+export interface AuditPairing {
+  foreground: string;
+  background: string;
+  requirement: string;
+  mode: ColorMode;
+  value: string; // Contrast ratio or APCA Lc, formatted
+  passes: boolean;
+}
+
+export interface AuditDistinguishability {
+  first: string;
+  second: string;
+  vision: string;
+  deltaE: number;
+  normalDeltaE: number;
+}
+
+export interface AuditReport {
+  generator: string;
+  generatedAt: string; // ISO 8601
+  palette: string;
+  colorCount: number;
+  modes: ColorMode[];
+  cvdSeverity: number; // Percent, for the anomalous types
+  criteria: WCAGCriterion[];
+  summary: Record<AuditCheck, { passing: number; total: number }>;
+  swatches: AuditSwatch[];
+  matrices: AuditMatrix[];
+  pairings: AuditPairing[];
+  distinguishability: AuditDistinguishability[];
+}
+
+export interface AuditReportOptions {
+  name?: string; // Palette name shown in the report
+  generatedAt?: Date;
+}
+
+/**
+ * Suggest a foreground for a pair failing normal text AA
+ * A translucent foreground is composited over the background first. Pairs on
+ * a translucent background depend on what is behind it, so get no suggestion.
+ */
+function suggestFix(foreground: PaletteColor, background: PaletteColor): AuditPair['suggestion'] {
+  const fgRgb = getPaletteColorRgb(foreground);
+  const bgRgb = getPaletteColorRgb(background);
+  if (!fgRgb || !bgRgb || !isOpaque(bgRgb)) {
+    return undefined;
+  }
+
+  const passing = findPassingColor(isOpaque(fgRgb) ? fgRgb : compositeColors(fgRgb, bgRgb), bgRgb, WCAG_THRESHOLDS.normalTextAA);
+  if (!passing) {
+    return undefined;
+  }
+  return { foreground: rgbToHex(passing).toUpperCase(), ratio: getContrastRatio(passing, bgRgb) };
+}
+
+/**
+ * Check every foreground/background pair of a palette in one mode
+ */
+function auditMatrix(colors: PaletteColor[], mode: ColorMode): AuditMatrix {
+  const modeColors = getModePalette(colors, mode);
+  const pairs: AuditPair[] = [];
+
+  for (const background of modeColors) {
+    for (const foreground of modeColors) {
+      if (foreground.id === background.id) continue;
+
+      const ratio = calculatePairContrast(foreground, background);
+      const compliance = checkWCAGCompliance(ratio);
+      const pair: AuditPair = {
+        foreground: foreground.name,
+        background: background.name,
+        foregroundValue: getPaletteColorValue(foreground),
+        backgroundValue: getPaletteColorValue(background),
+        ratio,
+        results: Object.fromEntries(AUDIT_CHECKS.map((check) => [check.id, compliance[check.id]])) as Record<AuditCheck, boolean>,
+      };
+      if (!compliance.normalTextAA) {
+        pair.suggestion = suggestFix(foreground, background);
+      }
+      pairs.push(pair);
+    }
+  }
+
+  return { mode, pairs };
+}
+
+/**
+ * Collect the audit of a palette
+ * The full matrix is checked in every mode the palette defines; declared
+ * pairings are listed with their own requirements on top of it.
+ */
+export function createAuditReport(
+  colors: PaletteColor[],
+  pairings: PalettePairing[] = [],
+  options: AuditReportOptions = {}
+): AuditReport {
+  const modes = getColorModes(colors);
+  const matrices = modes.map((mode) => auditMatrix(colors, mode));
+
+  const summary = Object.fromEntries(
+    AUDIT_CHECKS.map((check) => {
+      const pairs = matrices.flatMap((matrix) => matrix.pairs);
+      return [check.id, { passing: pairs.filter((p) => p.results[check.id]).length, total: pairs.length }];
+    })
+  ) as AuditReport['summary'];
+
+  const swatches: AuditSwatch[] = colors.map((color) => {
+    const value = getPaletteColorValue(color);
+    const swatch: AuditSwatch = {
+      name: color.name,
+      value,
+      modes: { ...color.modes },
+      simulations: Object.fromEntries(CVD_TYPES.map((type) => [type.id, simulateCVD(value, type.id).toUpperCase()])),
+    };
+    const scale = getPaletteScale(color);
+    if (scale) {
+      swatch.scale = scale.swatches.map((s) => ({ step: s.step, hex: s.hex }));
+    }
+    return swatch;
+  });
+
+  const declared = modes.flatMap((mode) =>
+    checkPairings(colors, pairings, mode).map((result) => ({
+      foreground: result.foreground.name,
+      background: result.background.name,
+      requirement: describePairingRequirement(result.pairing),
+      mode,
+      value: formatPairingValue(result),
+      passes: result.passes,
+    }))
+  );
+
+  return {
+    generator: 'HuePass',
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    palette: options.name ?? 'Palette',
+    colorCount: colors.length,
+    modes,
+    cvdSeverity: getCVDSeverity(),
+    criteria: WCAG_CRITERIA,
+    summary,
+    swatches,
+    matrices,
+    pairings: declared,
+    distinguishability: analyzeDistinguishability(colors).map((issue) => ({
+      first: issue.first.name,
+      second: issue.second.name,
+      vision: CVD_TYPES.find((t) => t.id === issue.cvdType)?.name ?? 'Normal vision',
+      deltaE: issue.deltaE,
+      normalDeltaE: issue.normalDeltaE,
+    })),
+  };
+}
+
+/**
+ * Export an audit report as JSON for archiving
+ */
+export function exportAuditReportJSON(report: AuditReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 14px/1.5 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; background: #FFFFFF; }
+  h1 { margin: 0 0 4px; font-size: 26px; }
+  h2 { margin: 40px 0 12px; font-size: 18px; border-bottom: 1px solid #E5E7EB; padding-bottom: 6px; }
+  h3 { margin: 24px 0 8px; font-size: 15px; }
+  p { margin: 0 0 8px; }
+  a { color: #1D4ED8; }
+  code, .mono { font-family: ui-monospace, 'SF Mono', Menlo, monospace; font-size: 12px; }
+  .meta { color: #4B5563; }
+  .summary { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+  .summary-item { min-width: 120px; padding: 10px 14px; border: 1px solid #E5E7EB; border-radius: 8px; }
+  .summary-value { display: block; font-size: 20px; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #E5E7EB; text-align: left; vertical-align: middle; }
+  th { font-size: 12px; color: #4B5563; font-weight: 600; }
+  .chip { display: inline-block; width: 16px; height: 16px; margin-right: 6px; vertical-align: -3px; border-radius: 4px; border: 1px solid rgba(0, 0, 0, 0.15); }
+  .swatches { display: grid; grid-template-columns: repeat(auto-fill, minmax(150px, 1fr)); gap: 12px; }
+  .swatch { border: 1px solid #E5E7EB; border-radius: 8px; overflow: hidden; break-inside: avoid; }
+  .swatch-color { height: 64px; }
+  .swatch-body { padding: 8px 10px; }
+  .swatch-name { font-weight: 600; }
+  .scale { display: flex; height: 16px; }
+  .scale span { flex: 1; }
+  .matrix { width: auto; }
+  .matrix td { width: 72px; height: 56px; padding: 4px; text-align: center; border: 1px solid #FFFFFF; font-size: 11px; line-height: 1.3; }
+  .matrix .sample { display: block; font-size: 16px; font-weight: 600; }
+  .pass { color: #047857; font-weight: 600; }
+  .fail { color: #B91C1C; font-weight: 600; }
+  .note { color: #4B5563; font-size: 13px; }
+  @page { margin: 14mm; }
+  @media print {
+    body { padding: 0; font-size: 11px; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    h2 { break-after: avoid; }
+    section { break-inside: auto; }
+    thead { display: table-header-group; }
+    tr, .summary-item { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+    .criteria a::after { content: ' (' attr(href) ')'; font-size: 10px; color: #4B5563; }
+  }
+`;
+
+/**
+ * Escape text for HTML content and attributes
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * A color chip followed by its name
+ */
+function chip(value: string, label: string): string {
+  return `<span class="chip" style="background: ${value}"></span>${escapeHTML(label)}`;
+}
+
+/**
+ * Export an audit report as a self-contained HTML page
+ * Styles are inlined and a print stylesheet keeps colors and table headers,
+ * so the page can be saved as PDF from the browser's print dialog.
+ */
+export function exportAuditReportHTML(report: AuditReport): string {
+  const modeName = (mode: ColorMode) => COLOR_MODES.find((m) => m.id === mode)!.name;
+  const status = (passes: boolean) => (passes ? '<span class="pass">Pass</span>' : '<span class="fail">Fail</span>');
+  const timestamp = report.generatedAt.replace('T', ' ').replace(/:\d{2}\.\d+Z$/, ' UTC');
+  const lightPairs = report.matrices[0]?.pairs ?? [];
+  const failing = report.matrices.flatMap((matrix) => matrix.pairs.filter((p) => !p.results.normalTextAA).map((pair) => ({ mode: matrix.mode, pair })));
+
+  const sections: string[] = [];
+
+  sections.push(`
+  <header>
+    <h1>Accessibility Audit: ${escapeHTML(report.palette)}</h1>
+    <p class="meta">Generated by ${escapeHTML(report.generator)} on ${timestamp} · ${report.colorCount} color${report.colorCount !== 1 ? 's' : ''} · Modes: ${report.modes.map(modeName).join(', ')}</p>
+    <div class="summary">
+      ${AUDIT_CHECKS.map((check) => {
+        const { passing, total } = report.summary[check.id];
+        return `<div class="summary-item"><span class="summary-value">${passing}/${total}</span>${check.name} (${check.criterion})</div>`;
+      }).join('\n      ')}
+    </div>
+  </header>`);
+
+  sections.push(`
+  <section class="criteria">
+    <h2>WCAG Success Criteria</h2>
+    <table>
+      <thead><tr><th>Criterion</th><th>Level</th><th>Requirement</th></tr></thead>
+      <tbody>
+        ${report.criteria.map((c) => `<tr><td><a href="${c.url}">${c.id} ${escapeHTML(c.name)}</a></td><td>${c.level}</td><td>${escapeHTML(c.summary)}</td></tr>`).join('\n        ')}
+      </tbody>
+    </table>
+  </section>`);
+
+  sections.push(`
+  <section>
+    <h2>Palette</h2>
+    <div class="swatches">
+      ${report.swatches.map((swatch) => `<div class="swatch">
+        <div class="swatch-color" style="background: ${swatch.value}"></div>
+        ${swatch.scale ? `<div class="scale">${swatch.scale.map((s) => `<span style="background: ${s.hex}" title="${s.step} ${s.hex}"></span>`).join('')}</div>` : ''}
+        <div class="swatch-body">
+          <div class="swatch-name">${escapeHTML(swatch.name)}</div>
+          <div class="mono">${swatch.value}</div>
+          ${Object.entries(swatch.modes).map(([mode, hex]) => `<div class="mono">${modeName(mode as ColorMode)} ${hex}</div>`).join('')}
+        </div>
+      </div>`).join('\n      ')}
+    </div>
+  </section>`);
+
+  for (const matrix of report.matrices) {
+    const names = report.swatches.map((s) => s.name);
+    const find = (fg: string, bg: string) => matrix.pairs.find((p) => p.foreground === fg && p.background === bg);
+    sections.push(`
+  <section>
+    <h2>Contrast Matrix${report.modes.length > 1 ? `: ${modeName(matrix.mode)}` : ''}</h2>
+    <p class="note">Rows are backgrounds, columns are foregrounds. Each cell shows the WCAG 2.1 ratio and the highest text level it meets.</p>
+    <table class="matrix">
+      <thead><tr><th></th>${names.map((name) => `<th>${escapeHTML(name)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${names.map((bg) => `<tr><th>${escapeHTML(bg)}</th>${names.map((fg) => {
+          const pair = find(fg, bg);
+          if (!pair) return '<td></td>';
+          const level = pair.results.normalTextAAA ? 'AAA' : pair.results.normalTextAA ? 'AA' : pair.results.largeTextAA ? 'AA Large' : 'Fail';
+          return `<td style="background: ${pair.backgroundValue}; color: ${pair.foregroundValue}"><span class="sample">Aa</span>${formatContrastRatio(pair.ratio)}<br>${level}</td>`;
+        }).join('')}</tr>`).join('\n        ')}
+      </tbody>
+    </table>
+
+    <h3>All pairs</h3>
+    <table>
+      <thead><tr><th>Foreground</th><th>Background</th><th>Ratio</th>${AUDIT_CHECKS.map((check) => `<th>${check.name}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${matrix.pairs.map((pair) => `<tr><td>${chip(pair.foregroundValue, pair.foreground)}</td><td>${chip(pair.backgroundValue, pair.background)}</td><td class="mono">${formatContrastRatio(pair.ratio)}</td>${AUDIT_CHECKS.map((check) => `<td>${status(pair.results[check.id])}</td>`).join('')}</tr>`).join('\n        ')}
+      </tbody>
+    </table>
+  </section>`);
+  }
+
+  if (report.pairings.length > 0) {
+    sections.push(`
+  <section>
+    <h2>Declared Pairings</h2>
+    <table>
+      <thead><tr><th>Foreground</th><th>Background</th><th>Requirement</th><th>Mode</th><th>Contrast</th><th>Result</th></tr></thead>
+      <tbody>
+        ${report.pairings.map((p) => `<tr><td>${escapeHTML(p.foreground)}</td><td>${escapeHTML(p.background)}</td><td>${escapeHTML(p.requirement)}</td><td>${modeName(p.mode)}</td><td class="mono">${p.value}</td><td>${status(p.passes)}</td></tr>`).join('\n        ')}
+      </tbody>
+    </table>
+  </section>`);
+  }
+
+  sections.push(`
+  <section>
+    <h2>Suggested Fixes</h2>
+    ${failing.length === 0
+      ? '<p>Every pair meets normal text AA (1.4.3).</p>'
+      : `<p class="note">Pairs below normal text AA (${WCAG_THRESHOLDS.normalTextAA}:1, 1.4.3), with the closest foreground that passes. Lightness changes while hue and chroma are kept.</p>
+    <table>
+      <thead><tr>${report.modes.length > 1 ? '<th>Mode</th>' : ''}<th>Foreground</th><th>Background</th><th>Ratio</th><th>Suggested foreground</th><th>New ratio</th></tr></thead>
+      <tbody>
+        ${failing.map(({ mode, pair }) => `<tr>${report.modes.length > 1 ? `<td>${modeName(mode)}</td>` : ''}<td>${chip(pair.foregroundValue, pair.foreground)}</td><td>${chip(pair.backgroundValue, pair.background)}</td><td class="mono">${formatContrastRatio(pair.ratio)}</td>${pair.suggestion
+          ? `<td class="mono">${chip(pair.suggestion.foreground, pair.suggestion.foreground)}</td><td class="mono">${formatContrastRatio(pair.suggestion.ratio)}</td>`
+          : '<td colspan="2">No suggestion</td>'}</tr>`).join('\n        ')}
+      </tbody>
+    </table>`}
+  </section>`);
+
+  sections.push(`
+  <section>
+    <h2>Color Vision Deficiency</h2>
+    <p class="note">Each swatch as seen with every simulated vision type. Anomalous types are simulated at ${report.cvdSeverity}% severity.</p>
+    <table>
+      <thead><tr><th>Color</th>${CVD_TYPES.map((type) => `<th>${escapeHTML(type.name)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${report.swatches.map((swatch) => `<tr><td>${chip(swatch.value, swatch.name)}</td>${CVD_TYPES.map((type) => `<td class="mono">${chip(swatch.simulations[type.id] ?? swatch.value, swatch.simulations[type.id] ?? '')}</td>`).join('')}</tr>`).join('\n        ')}
+      </tbody>
+    </table>
+    <h3>Hard to tell apart</h3>
+    ${report.distinguishability.length === 0
+      ? `<p>All colors stay distinguishable (ΔE ${DISTINGUISHABILITY_THRESHOLD} or more, CIEDE2000) under every simulated vision type.</p>`
+      : `<table>
+      <thead><tr><th>Colors</th><th>Vision</th><th>ΔE</th><th>Normal ΔE</th></tr></thead>
+      <tbody>
+        ${report.distinguishability.map((issue) => `<tr><td>${escapeHTML(issue.first)} / ${escapeHTML(issue.second)}</td><td>${escapeHTML(issue.vision)}</td><td class="mono">${issue.deltaE.toFixed(1)}</td><td class="mono">${issue.normalDeltaE.toFixed(1)}</td></tr>`).join('\n        ')}
+      </tbody>
+    </table>`}
+  </section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Accessibility Audit: ${escapeHTML(report.palette)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>${sections.join('\n')}
+  <footer class="note"><p>${lightPairs.length} pairs per mode. Ratios follow WCAG 2.1; translucent backgrounds are checked at their worst case over any backdrop.</p></footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,279 @@
+/**
+ * Chart Palette Generator
+ * Categorical, sequential and diverging colors for data visualization that
+ * stay tellable apart under every simulated color vision deficiency
+ */
+
+import { hexToRgb, rgbToHex, getContrastRatio, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { rgbToOklab, rgbToOklch, oklchToRgb, gamutMapOklch, isInSrgbGamut, getDeltaE2000, deltaEOK } from './color-space';
+import type { OKLab } from './color-space';
+import { simulateCVD, CVD_TYPES } from './color-blindness';
+import type { CVDType } from './color-blindness';
+import { DISTINGUISHABILITY_THRESHOLD } from './palette';
+
+export const MIN_CATEGORIES = 2;
+export const MAX_CATEGORIES = 12;
+
+export interface CategoricalOptions {
+  count: number; // Colors to return, locked colors included
+  background?: string; // Chart background, white when omitted
+  minContrast?: number; // Against the background, 3:1 (non-text contrast) when omitted
+  locked?: string[]; // Brand colors kept as the first colors, in order
+}
+
+export interface ChartColor {
+  hex: string;
+  locked: boolean;
+  contrast: number; // Against the chart background
+}
+
+export interface CategoricalPalette {
+  colors: ChartColor[];
+  minDeltaE: number; // Smallest CIEDE2000 between two colors with normal vision or any simulation
+  limitedBy: CVDType; // Vision type where minDeltaE occurs, 'none' for normal vision
+  distinguishable: boolean; // Whether minDeltaE reaches the distinguishability threshold
+}
+
+export interface ScaleOptions {
+  steps: number;
+  background?: string; // Chart background; the scale starts from its lightness
+}
+
+export interface ChartScale {
+  colors: string[];
+  minDeltaE: number; // Smallest CIEDE2000 between neighbouring steps with normal vision or any simulation
+  limitedBy: CVDType;
+  distinguishable: boolean;
+}
+
+// Candidate grid in OKLCH
+const CANDIDATE_LIGHTNESS = [0.3, 0.36, 0.42, 0.48, 0.54, 0.6, 0.66, 0.72, 0.78, 0.84, 0.9];
+const CANDIDATE_CHROMA = [0.05, 0.09, 0.13, 0.17, 0.21];
+const CANDIDATE_HUE_STEP = 10;
+
+// Light yellows wash out on light backgrounds and glare on dark ones
+const YELLOW_HUES = { min: 80, max: 120 };
+const MAX_YELLOW_LIGHTNESS = 0.8;
+
+// Passes that swap a generated color for a better candidate
+const REFINE_PASSES = 3;
+
+// Lightness of the far end of a scale, away from the background
+const SCALE_END_LIGHTNESS = { light: 0.3, dark: 0.92 };
+
+/**
+ * A color in OKLab as seen with normal vision, then with each CVD type
+ * Simulations use full severity, so anomalous types are held to the
+ * dichromat standard.
+ */
+function getVisionLabs(rgb: RGB): OKLab[] {
+  const hex = rgbToHex(rgb);
+  return [rgb, ...CVD_TYPES.map((type) => hexToRgb(simulateCVD(hex, type.id, 100)) ?? rgb)].map(rgbToOklab);
+}
+
+/**
+ * Smallest OKLab distance between two colors across every vision type
+ */
+function getVisionDistance(a: OKLab[], b: OKLab[]): number {
+  let min = Infinity;
+  for (let i = 0; i < a.length; i++) {
+    min = Math.min(min, deltaEOK(a[i], b[i]));
+  }
+  return min;
+}
+
+interface VisionDeltaE {
+  deltaE: number;
+  vision: CVDType;
+}
+
+/**
+ * Smallest CIEDE2000 between two colors across every vision type
+ */
+function getVisionDeltaE(first: RGB, second: RGB): VisionDeltaE {
+  const simulate = (rgb: RGB, type: CVDType) => hexToRgb(simulateCVD(rgbToHex(rgb), type, 100)) ?? rgb;
+  return CVD_TYPES.reduce<VisionDeltaE>((min, type) => {
+    const deltaE = getDeltaE2000(simulate(first, type.id), simulate(second, type.id));
+    return deltaE < min.deltaE ? { deltaE, vision: type.id } : min;
+  }, { deltaE: getDeltaE2000(first, second), vision: 'none' });
+}
+
+/**
+ * Smallest CIEDE2000 among the given color pairs
+ */
+function getMinDeltaE(pairs: Array<[RGB, RGB]>): VisionDeltaE {
+  const min = pairs.reduce<VisionDeltaE>((min, [a, b]) => {
+    const pair = getVisionDeltaE(a, b);
+    return pair.deltaE < min.deltaE ? pair : min;
+  }, { deltaE: Infinity, vision: 'none' });
+  return Number.isFinite(min.deltaE) ? min : { deltaE: 0, vision: 'none' };
+}
+
+/**
+ * Check whether a color is one of the very light yellows charts should avoid
+ */
+function isLightYellow(rgb: RGB): boolean {
+  const { l, h } = rgbToOklch(rgb);
+  return l > MAX_YELLOW_LIGHTNESS && h >= YELLOW_HUES.min && h <= YELLOW_HUES.max;
+}
+
+/**
+ * Generate categorical chart colors
+ * Candidates on an OKLCH grid that pass the background contrast and are not
+ * light yellows are picked one at a time, each as far as possible from those
+ * already picked under the worst vision type, then swapped for better
+ * candidates until nothing improves. Locked colors are kept as they are and
+ * come first. The smallest distance is maximized rather than guaranteed;
+ * `distinguishable` reports whether it reaches ΔE 10.
+ */
+export function generateCategoricalPalette(options: CategoricalOptions): CategoricalPalette {
+  const background = hexToRgb(options.background ?? '#FFFFFF') ?? { r: 255, g: 255, b: 255 };
+  const minContrast = options.minContrast ?? WCAG_THRESHOLDS.uiComponents;
+  const count = Math.max(MIN_CATEGORIES, Math.min(MAX_CATEGORIES, Math.round(options.count)));
+  const locked = (options.locked ?? [])
+    .map((hex) => hexToRgb(hex))
+    .filter((rgb): rgb is RGB => rgb !== null)
+    .slice(0, count)
+    .map((rgb) => ({ rgb: { r: rgb.r, g: rgb.g, b: rgb.b }, labs: getVisionLabs(rgb) }));
+
+  const candidates: Array<{ rgb: RGB; labs: OKLab[] }> = [];
+  for (const l of CANDIDATE_LIGHTNESS) {
+    for (const c of CANDIDATE_CHROMA) {
+      for (let h = 0; h < 360; h += CANDIDATE_HUE_STEP) {
+        const raw = oklchToRgb({ l, c, h });
+        if (!isInSrgbGamut(raw)) continue;
+
+        const rgb = { r: Math.round(raw.r), g: Math.round(raw.g), b: Math.round(raw.b) };
+        if (getContrastRatio(rgb, background) < minContrast || isLightYellow(rgb)) continue;
+        candidates.push({ rgb, labs: getVisionLabs(rgb) });
+      }
+    }
+  }
+
+  // Greedy farthest-point picks; with nothing locked, start farthest from the background
+  const picked = [...locked];
+  const backgroundLabs = getVisionLabs(background);
+  const nearest = (labs: OKLab[], others: Array<{ labs: OKLab[] }>) =>
+    others.reduce((min, other) => Math.min(min, getVisionDistance(labs, other.labs)), Infinity);
+  while (picked.length < count && candidates.length > 0) {
+    const others = picked.length > 0 ? picked : [{ labs: backgroundLabs }];
+    const best = candidates.reduce((a, b) => (nearest(b.labs, others) > nearest(a.labs, others) ? b : a));
+    picked.push(best);
+  }
+
+  // Swap each generated color for the candidate farthest from the rest
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    let improved = false;
+    for (let i = locked.length; i < picked.length; i++) {
+      const others = picked.filter((_, j) => j !== i);
+      const current = nearest(picked[i].labs, others);
+      const best = candidates.reduce((a, b) => (nearest(b.labs, others) > nearest(a.labs, others) ? b : a));
+      if (nearest(best.labs, others) > current + 1e-6) {
+        picked[i] = best;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  const pairs: Array<[RGB, RGB]> = [];
+  for (let i = 0; i < picked.length; i++) {
+    for (let j = i + 1; j < picked.length; j++) pairs.push([picked[i].rgb, picked[j].rgb]);
+  }
+  const { deltaE, vision } = getMinDeltaE(pairs);
+
+  return {
+    colors: picked.map((color, i) => ({
+      hex: rgbToHex(color.rgb).toUpperCase(),
+      locked: i < locked.length,
+      contrast: getContrastRatio(color.rgb, background),
+    })),
+    minDeltaE: deltaE,
+    limitedBy: vision,
+    distinguishable: deltaE >= DISTINGUISHABILITY_THRESHOLD,
+  };
+}
+
+/**
+ * Lightness range of a scale: from near the background to far from it
+ */
+function getScaleLightness(background: RGB): { start: number; end: number } {
+  const backgroundLightness = rgbToOklch(background).l;
+  const dark = backgroundLightness < 0.5;
+  return dark
+    ? { start: Math.min(backgroundLightness + 0.12, 0.5), end: SCALE_END_LIGHTNESS.dark }
+    : { start: Math.max(backgroundLightness - 0.04, 0.6), end: SCALE_END_LIGHTNESS.light };
+}
+
+/**
+ * Smallest CIEDE2000 between neighbouring colors of a scale across every vision type
+ */
+function measureScale(colors: string[], extraPairs: Array<[RGB, RGB]> = []): ChartScale {
+  const rgbs = colors.map((hex) => hexToRgb(hex)!);
+  const pairs = rgbs.slice(1).map((rgb, i): [RGB, RGB] => [rgbs[i], rgb]);
+  const { deltaE, vision } = getMinDeltaE([...pairs, ...extraPairs]);
+  return { colors, minDeltaE: deltaE, limitedBy: vision, distinguishable: deltaE >= DISTINGUISHABILITY_THRESHOLD };
+}
+
+/**
+ * One arm of a scale in a single hue, from the start lightness to the end
+ * Lightness changes evenly, so order survives every CVD simulation and
+ * grayscale printing; chroma peaks mid-scale and fades toward the start.
+ */
+function getScaleArm(hue: RGB, steps: number, start: number, end: number): string[] {
+  const { c, h } = rgbToOklch(hue);
+  return Array.from({ length: steps }, (_, i) => {
+    const t = steps === 1 ? 1 : i / (steps - 1);
+    const chroma = c * (0.25 + 0.75 * Math.sin(Math.PI * Math.min(t, 0.75) / 1.5));
+    const rgb = gamutMapOklch({ l: start + (end - start) * t, c: chroma, h });
+    return rgbToHex({ r: Math.round(rgb.r), g: Math.round(rgb.g), b: Math.round(rgb.b) }).toUpperCase();
+  });
+}
+
+/**
+ * Generate a sequential scale in one hue
+ * Steps run from close to the background, for low values, to far from it.
+ */
+export function generateSequentialScale(color: string, options: ScaleOptions): ChartScale {
+  const hue = hexToRgb(color) ?? { r: 37, g: 99, b: 235 };
+  const background = hexToRgb(options.background ?? '#FFFFFF') ?? { r: 255, g: 255, b: 255 };
+  const { start, end } = getScaleLightness(background);
+  return measureScale(getScaleArm(hue, Math.max(2, Math.round(options.steps)), start, end));
+}
+
+/**
+ * Generate a diverging scale between two hues
+ * Both arms share the same lightness steps so equal distances from the
+ * midpoint read as equal, and meet at a near-neutral midpoint. Pick hues
+ * that differ in more than red versus green, such as blue and orange; the
+ * returned distance shows whether the arms stay apart under simulation.
+ */
+export function generateDivergingScale(low: string, high: string, options: ScaleOptions): ChartScale {
+  const lowHue = hexToRgb(low) ?? { r: 37, g: 99, b: 235 };
+  const highHue = hexToRgb(high) ?? { r: 234, g: 88, b: 12 };
+  const background = hexToRgb(options.background ?? '#FFFFFF') ?? { r: 255, g: 255, b: 255 };
+  const { start, end } = getScaleLightness(background);
+  const steps = Math.max(3, Math.round(options.steps));
+  const armSteps = Math.ceil(steps / 2) + (steps % 2 === 1 ? 0 : 1);
+
+  // Each arm starts at the midpoint; an odd scale shares it, an even one drops it
+  const lowArm = getScaleArm(lowHue, armSteps, start, end).reverse();
+  const highArm = getScaleArm(highHue, armSteps, start, end);
+  const colors = steps % 2 === 1
+    ? [...lowArm.slice(0, -1), neutralMidpoint(lowArm[lowArm.length - 1], highArm[0]), ...highArm.slice(1)]
+    : [...lowArm.slice(0, -1), ...highArm.slice(1)];
+
+  // The two ends must also stay apart, or the arms read as the same direction;
+  // with no hue perception they cannot, so monochromacies limit every diverging scale
+  return measureScale(colors, [[hexToRgb(colors[0])!, hexToRgb(colors[colors.length - 1])!]]);
+}
+
+/**
+ * Gray midpoint of a diverging scale at the lightness both arms start from
+ */
+function neutralMidpoint(low: string, high: string): string {
+  const l = (rgbToOklch(hexToRgb(low)!).l + rgbToOklch(hexToRgb(high)!).l) / 2;
+  const rgb = gamutMapOklch({ l, c: 0.01, h: 0 });
+  return rgbToHex({ r: Math.round(rgb.r), g: Math.round(rgb.g), b: Math.round(rgb.b) }).toUpperCase();
+}
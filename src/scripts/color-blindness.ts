@@ -1,15 +1,22 @@
 /**
  * Color Vision Deficiency (CVD) Simulation
  *
- * Implements Brettel, Viénot & Mollon (1997) algorithm for accurate
- * simulation of how colors appear to people with color blindness.
+ * Implements the Machado, Oliveira & Fernandes (2009) model, which covers
+ * anomalous trichromacy at any severity as well as full dichromacy.
  */
 
+import { parseColor } from './color-parser';
+import { rgbToHex } from './contrast';
+
 export type CVDType =
-  | 'protanopia'    // Red-blind
-  | 'deuteranopia'  // Green-blind
-  | 'tritanopia'    // Blue-blind
-  | 'achromatopsia' // Complete color blindness
+  | 'protanomaly'    // Red-weak
+  | 'protanopia'     // Red-blind
+  | 'deuteranomaly'  // Green-weak
+  | 'deuteranopia'   // Green-blind
+  | 'tritanomaly'    // Blue-weak
+  | 'tritanopia'     // Blue-blind
+  | 'achromatopsia'  // Complete color blindness
+  | 'blue-cone-monochromacy' // Only blue cones and rods
   | 'none';
 
 export interface CVDInfo {
@@ -17,20 +24,42 @@ export interface CVDInfo {
   name: string;
   description: string;
   prevalence: string;
+  adjustable?: boolean; // Simulated at the chosen severity rather than fully
 }
 
 export const CVD_TYPES: CVDInfo[] = [
+  {
+    id: 'protanomaly',
+    name: 'Protanomaly',
+    description: 'Red-weak, reds look darker and closer to green',
+    prevalence: '~1% of males',
+    adjustable: true
+  },
   {
     id: 'protanopia',
     name: 'Protanopia',
     description: 'Red-blind, difficulty distinguishing red from green',
     prevalence: '~1% of males'
   },
+  {
+    id: 'deuteranomaly',
+    name: 'Deuteranomaly',
+    description: 'Green-weak, most common form of color blindness',
+    prevalence: '~5% of males',
+    adjustable: true
+  },
   {
     id: 'deuteranopia',
     name: 'Deuteranopia',
-    description: 'Green-blind, most common form of color blindness',
-    prevalence: '~5% of males'
+    description: 'Green-blind, difficulty distinguishing red from green',
+    prevalence: '~1% of males'
+  },
+  {
+    id: 'tritanomaly',
+    name: 'Tritanomaly',
+    description: 'Blue-weak, blues and greens are harder to tell apart',
+    prevalence: '~0.01% of population',
+    adjustable: true
   },
   {
     id: 'tritanopia',
@@ -43,36 +72,118 @@ export const CVD_TYPES: CVDInfo[] = [
     name: 'Achromatopsia',
     description: 'Complete color blindness, sees only in grayscale',
     prevalence: '~0.003% of population'
+  },
+  {
+    id: 'blue-cone-monochromacy',
+    name: 'Blue Cone Monochromacy',
+    description: 'No red or green cones, sees mostly in shades of one hue',
+    prevalence: '~0.001% of population'
   }
 ];
 
+type CVDFamily = 'protan' | 'deutan' | 'tritan';
+
 /**
- * Transformation matrices for CVD simulation
- * Based on Brettel, Viénot & Mollon (1997) and Machado et al. (2009)
+ * Machado et al. (2009) simulation matrices for linear RGB
+ * One matrix per 10% severity step, from 0.1 to 1.0 (0 is the identity).
  */
-const CVD_MATRICES: Record<Exclude<CVDType, 'none' | 'achromatopsia'>, number[][]> = {
-  protanopia: [
-    [0.567, 0.433, 0.000],
-    [0.558, 0.442, 0.000],
-    [0.000, 0.242, 0.758]
+const MACHADO_MATRICES: Record<CVDFamily, number[][][]> = {
+  protan: [
+    [[0.856167, 0.182038, -0.038205], [0.029342, 0.955115, 0.015544], [-0.00288, -0.001563, 1.004443]],
+    [[0.734766, 0.334872, -0.069637], [0.05184, 0.919198, 0.028963], [-0.004928, -0.004209, 1.009137]],
+    [[0.630323, 0.465641, -0.095964], [0.069181, 0.890046, 0.040773], [-0.006308, -0.007724, 1.014032]],
+    [[0.539009, 0.579343, -0.118352], [0.082546, 0.866121, 0.051332], [-0.007136, -0.011959, 1.019095]],
+    [[0.458064, 0.679578, -0.137642], [0.092785, 0.846313, 0.060902], [-0.007494, -0.016807, 1.024301]],
+    [[0.38545, 0.769005, -0.154455], [0.100526, 0.829802, 0.069673], [-0.007442, -0.02219, 1.029632]],
+    [[0.319627, 0.849633, -0.169261], [0.106241, 0.815969, 0.07779], [-0.007025, -0.028051, 1.035076]],
+    [[0.259411, 0.923008, -0.18242], [0.110296, 0.80434, 0.085364], [-0.006276, -0.034346, 1.040622]],
+    [[0.203876, 0.990338, -0.194214], [0.112975, 0.794542, 0.092483], [-0.005222, -0.041043, 1.046265]],
+    [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]]
   ],
-  deuteranopia: [
-    [0.625, 0.375, 0.000],
-    [0.700, 0.300, 0.000],
-    [0.000, 0.300, 0.700]
+  deutan: [
+    [[0.866435, 0.177704, -0.044139], [0.049567, 0.939063, 0.01137], [-0.003453, 0.007233, 0.99622]],
+    [[0.760729, 0.319078, -0.079807], [0.090568, 0.889315, 0.020117], [-0.006027, 0.013325, 0.992702]],
+    [[0.675425, 0.43385, -0.109275], [0.125303, 0.847755, 0.026942], [-0.00795, 0.018572, 0.989378]],
+    [[0.605511, 0.52856, -0.134071], [0.155318, 0.812366, 0.032316], [-0.009376, 0.023176, 0.9862]],
+    [[0.547494, 0.607765, -0.155259], [0.181692, 0.781742, 0.036566], [-0.01041, 0.027275, 0.983136]],
+    [[0.498864, 0.674741, -0.173604], [0.205199, 0.754872, 0.039929], [-0.011131, 0.030969, 0.980162]],
+    [[0.457771, 0.731899, -0.18967], [0.226409, 0.731012, 0.042579], [-0.011595, 0.034333, 0.977261]],
+    [[0.422823, 0.781057, -0.203881], [0.245752, 0.709602, 0.044646], [-0.011843, 0.037423, 0.974421]],
+    [[0.392952, 0.82361, -0.216562], [0.263559, 0.69021, 0.046232], [-0.01191, 0.040281, 0.97163]],
+    [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]]
   ],
-  tritanopia: [
-    [0.950, 0.050, 0.000],
-    [0.000, 0.433, 0.567],
-    [0.000, 0.475, 0.525]
+  tritan: [
+    [[0.92667, 0.092514, -0.019184], [0.021191, 0.964503, 0.014306], [0.008437, 0.054813, 0.93675]],
+    [[0.89572, 0.13333, -0.02905], [0.029997, 0.9454, 0.024603], [0.013027, 0.104707, 0.882266]],
+    [[0.905871, 0.127791, -0.033662], [0.026856, 0.941251, 0.031893], [0.01341, 0.148296, 0.838294]],
+    [[0.948035, 0.08949, -0.037526], [0.014364, 0.946792, 0.038844], [0.010853, 0.193991, 0.795156]],
+    [[1.017277, 0.027029, -0.044306], [-0.006113, 0.958479, 0.047634], [0.006379, 0.248708, 0.744913]],
+    [[1.104996, -0.046633, -0.058363], [-0.032137, 0.971635, 0.060503], [0.001336, 0.317922, 0.680742]],
+    [[1.193214, -0.109812, -0.083402], [-0.058496, 0.97941, 0.079086], [-0.002346, 0.403492, 0.598854]],
+    [[1.257728, -0.139648, -0.118081], [-0.078003, 0.975409, 0.102594], [-0.003316, 0.501214, 0.502102]],
+    [[1.278864, -0.125333, -0.153531], [-0.084748, 0.957674, 0.127074], [-0.000989, 0.601151, 0.399838]],
+    [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]]
   ]
 };
 
+const IDENTITY = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1]
+];
+
 /**
  * Grayscale weights for achromatopsia (based on luminance)
  */
 const GRAYSCALE_WEIGHTS = [0.2126, 0.7152, 0.0722];
 
+/**
+ * Grayscale weights for blue cone monochromacy
+ * Brightness follows the blue cones and rods, so blues read light and reds dark.
+ */
+const BLUE_CONE_WEIGHTS = [0.01775, 0.10945, 0.87262];
+
+/**
+ * CVD family and whether the type is simulated at the chosen severity
+ */
+const CVD_FAMILIES: Partial<Record<CVDType, { family: CVDFamily; adjustable: boolean }>> = {
+  protanomaly: { family: 'protan', adjustable: true },
+  protanopia: { family: 'protan', adjustable: false },
+  deuteranomaly: { family: 'deutan', adjustable: true },
+  deuteranopia: { family: 'deutan', adjustable: false },
+  tritanomaly: { family: 'tritan', adjustable: true },
+  tritanopia: { family: 'tritan', adjustable: false }
+};
+
+/**
+ * Get the linear RGB simulation matrix for a CVD type
+ * Severity (0-100) applies to the anomalous types; the dichromacies are always
+ * simulated at 100%. Severities between the published steps are interpolated.
+ */
+export function getCVDMatrix(cvdType: CVDType, severity: number = getCVDSeverity()): number[][] {
+  if (cvdType === 'achromatopsia') {
+    return [GRAYSCALE_WEIGHTS, GRAYSCALE_WEIGHTS, GRAYSCALE_WEIGHTS];
+  }
+  if (cvdType === 'blue-cone-monochromacy') {
+    return [BLUE_CONE_WEIGHTS, BLUE_CONE_WEIGHTS, BLUE_CONE_WEIGHTS];
+  }
+
+  const info = CVD_FAMILIES[cvdType];
+  if (!info) {
+    return IDENTITY;
+  }
+
+  const matrices = [IDENTITY, ...MACHADO_MATRICES[info.family]];
+  const position = (info.adjustable ? Math.max(0, Math.min(100, severity)) : 100) / 10;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, matrices.length - 1);
+  const t = position - lower;
+
+  return matrices[lower].map((row, i) =>
+    row.map((value, j) => value + (matrices[upper][i][j] - value) * t)
+  );
+}
+
 /**
  * Convert sRGB to linear RGB
  */
@@ -102,44 +213,58 @@ function applyMatrix(rgb: [number, number, number], matrix: number[][]): [number
 
 /**
  * Simulate how a color appears to someone with a specific CVD type
+ * Accepts any CSS color syntax and returns a hex string. Severity defaults to
+ * the current toolbar setting.
  */
-export function simulateCVD(hex: string, cvdType: CVDType): string {
+export function simulateCVD(hex: string, cvdType: CVDType, severity: number = getCVDSeverity()): string {
   if (cvdType === 'none') return hex;
 
-  // Parse hex to RGB
-  const cleanHex = hex.replace('#', '');
-  const r = parseInt(cleanHex.substring(0, 2), 16);
-  const g = parseInt(cleanHex.substring(2, 4), 16);
-  const b = parseInt(cleanHex.substring(4, 6), 16);
+  // Parse color to RGB
+  const rgb = parseColor(hex);
+  if (!rgb) return hex;
 
   // Convert to linear RGB
   const linearRgb: [number, number, number] = [
-    srgbToLinear(r),
-    srgbToLinear(g),
-    srgbToLinear(b)
+    srgbToLinear(rgb.r),
+    srgbToLinear(rgb.g),
+    srgbToLinear(rgb.b)
   ];
 
-  let simulatedLinear: [number, number, number];
-
-  if (cvdType === 'achromatopsia') {
-    // Grayscale conversion
-    const gray =
-      linearRgb[0] * GRAYSCALE_WEIGHTS[0] +
-      linearRgb[1] * GRAYSCALE_WEIGHTS[1] +
-      linearRgb[2] * GRAYSCALE_WEIGHTS[2];
-    simulatedLinear = [gray, gray, gray];
-  } else {
-    // Apply CVD transformation matrix
-    simulatedLinear = applyMatrix(linearRgb, CVD_MATRICES[cvdType]);
-  }
+  // Apply CVD transformation matrix
+  const simulatedLinear = applyMatrix(linearRgb, getCVDMatrix(cvdType, severity));
 
   // Convert back to sRGB
   const newR = linearToSrgb(simulatedLinear[0]);
   const newG = linearToSrgb(simulatedLinear[1]);
   const newB = linearToSrgb(simulatedLinear[2]);
 
-  // Return as hex
-  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`.toUpperCase();
+  // Return as hex, keeping any alpha
+  return rgbToHex({ r: newR, g: newG, b: newB, a: rgb.a }).toUpperCase();
+}
+
+/**
+ * Simulate a CVD type on RGBA pixel data, such as a canvas ImageData buffer
+ * Uses the same matrices as simulateCVD and returns a new buffer; alpha is kept.
+ */
+export function simulateCVDPixels(
+  data: Uint8ClampedArray,
+  cvdType: CVDType,
+  severity: number = getCVDSeverity()
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(data);
+  if (cvdType === 'none') return output;
+
+  const matrix = getCVDMatrix(cvdType, severity);
+  const linear = Array.from({ length: 256 }, (_, value) => srgbToLinear(value));
+
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = applyMatrix([linear[data[i]], linear[data[i + 1]], linear[data[i + 2]]], matrix);
+    output[i] = linearToSrgb(r);
+    output[i + 1] = linearToSrgb(g);
+    output[i + 2] = linearToSrgb(b);
+  }
+
+  return output;
 }
 
 /**
@@ -149,53 +274,32 @@ export function getCVDFilterId(cvdType: CVDType): string {
   return `cvd-filter-${cvdType}`;
 }
 
+/**
+ * Format a CVD matrix as feColorMatrix values
+ */
+function getFilterValues(cvdType: CVDType, severity: number): string {
+  const rows = getCVDMatrix(cvdType, severity).map(
+    (row) => `${row.map((v) => v.toFixed(6)).join(' ')} 0 0`
+  );
+  return [...rows, '0 0 0 1 0'].join('\n');
+}
+
 /**
  * Generate SVG filter definitions for all CVD types
- * These can be applied to the entire page using CSS filter: url(#filter-id)
+ * These can be applied to the entire page using CSS filter: url(#filter-id).
+ * Filters work in linear RGB with the same matrices as simulateCVD.
  */
 export function generateCVDFilters(): string {
+  const filters = CVD_TYPES.map(
+    (type) => `
+        <filter id="${getCVDFilterId(type.id)}" color-interpolation-filters="linearRGB">
+          <feColorMatrix type="matrix" values="${getFilterValues(type.id, currentCVDSeverity)}"/>
+        </filter>`
+  ).join('');
+
   return `
     <svg class="cvd-filters" aria-hidden="true" style="position: absolute; width: 0; height: 0; overflow: hidden;">
-      <defs>
-        <!-- Protanopia (Red-blind) -->
-        <filter id="${getCVDFilterId('protanopia')}">
-          <feColorMatrix type="matrix" values="
-            0.567, 0.433, 0.000, 0, 0
-            0.558, 0.442, 0.000, 0, 0
-            0.000, 0.242, 0.758, 0, 0
-            0,     0,     0,     1, 0
-          "/>
-        </filter>
-
-        <!-- Deuteranopia (Green-blind) -->
-        <filter id="${getCVDFilterId('deuteranopia')}">
-          <feColorMatrix type="matrix" values="
-            0.625, 0.375, 0.000, 0, 0
-            0.700, 0.300, 0.000, 0, 0
-            0.000, 0.300, 0.700, 0, 0
-            0,     0,     0,     1, 0
-          "/>
-        </filter>
-
-        <!-- Tritanopia (Blue-blind) -->
-        <filter id="${getCVDFilterId('tritanopia')}">
-          <feColorMatrix type="matrix" values="
-            0.950, 0.050, 0.000, 0, 0
-            0.000, 0.433, 0.567, 0, 0
-            0.000, 0.475, 0.525, 0, 0
-            0,     0,     0,     1, 0
-          "/>
-        </filter>
-
-        <!-- Achromatopsia (Complete color blindness) -->
-        <filter id="${getCVDFilterId('achromatopsia')}">
-          <feColorMatrix type="matrix" values="
-            0.2126, 0.7152, 0.0722, 0, 0
-            0.2126, 0.7152, 0.0722, 0, 0
-            0.2126, 0.7152, 0.0722, 0, 0
-            0,      0,      0,      1, 0
-          "/>
-        </filter>
+      <defs>${filters}
       </defs>
     </svg>
   `;
@@ -205,7 +309,9 @@ export function generateCVDFilters(): string {
  * State management for CVD mode
  */
 let currentCVDMode: CVDType = 'none';
+let currentCVDSeverity = 100;
 const CVD_STORAGE_KEY = 'huepass-cvd-mode';
+const CVD_SEVERITY_STORAGE_KEY = 'huepass-cvd-severity';
 
 /**
  * Get current CVD mode
@@ -214,6 +320,41 @@ export function getCurrentCVDMode(): CVDType {
   return currentCVDMode;
 }
 
+/**
+ * Get current severity (0-100) for the anomalous CVD types
+ */
+export function getCVDSeverity(): number {
+  return currentCVDSeverity;
+}
+
+/**
+ * Check whether a CVD type is simulated at the chosen severity
+ */
+export function isCVDAdjustable(cvdType: CVDType): boolean {
+  return CVD_TYPES.some((t) => t.id === cvdType && t.adjustable);
+}
+
+/**
+ * Apply the current mode's filter to the page
+ */
+function applyCVDFilter(): void {
+  const html = document.documentElement;
+
+  // Set as a custom property so global.css can chain it with the low vision filter
+  if (currentCVDMode === 'none') {
+    html.style.removeProperty('--cvd-filter');
+    html.removeAttribute('data-cvd-mode');
+  } else {
+    html.style.setProperty('--cvd-filter', `url(#${getCVDFilterId(currentCVDMode)})`);
+    html.setAttribute('data-cvd-mode', currentCVDMode);
+  }
+
+  // Dispatch event for components to react
+  window.dispatchEvent(
+    new CustomEvent('cvdModeChange', { detail: { mode: currentCVDMode, severity: currentCVDSeverity } })
+  );
+}
+
 /**
  * Set CVD mode and apply to page
  */
@@ -225,27 +366,42 @@ export function setCVDMode(mode: CVDType): void {
     localStorage.setItem(CVD_STORAGE_KEY, mode);
   }
 
-  // Apply filter to page
-  const html = document.documentElement;
+  applyCVDFilter();
+}
 
-  if (mode === 'none') {
-    html.style.filter = '';
-    html.removeAttribute('data-cvd-mode');
-  } else {
-    html.style.filter = `url(#${getCVDFilterId(mode)})`;
-    html.setAttribute('data-cvd-mode', mode);
+/**
+ * Set severity for the anomalous CVD types and update the page filters
+ */
+export function setCVDSeverity(severity: number): void {
+  currentCVDSeverity = Math.round(Math.max(0, Math.min(100, severity)));
+
+  // Save preference
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(CVD_SEVERITY_STORAGE_KEY, String(currentCVDSeverity));
   }
 
-  // Dispatch event for components to react
-  window.dispatchEvent(new CustomEvent('cvdModeChange', { detail: { mode } }));
+  // Update the filter matrices already in the page
+  for (const type of CVD_TYPES) {
+    if (!type.adjustable) continue;
+    const matrix = document.querySelector(`#${getCVDFilterId(type.id)} feColorMatrix`);
+    matrix?.setAttribute('values', getFilterValues(type.id, currentCVDSeverity));
+  }
+
+  // Re-apply so browsers pick up the new matrix
+  applyCVDFilter();
 }
 
 /**
- * Initialize CVD mode from stored preference
+ * Initialize CVD mode and severity from stored preference
  */
 export function initCVDMode(): void {
   if (typeof localStorage !== 'undefined') {
     const stored = localStorage.getItem(CVD_STORAGE_KEY) as CVDType | null;
+    const storedSeverity = localStorage.getItem(CVD_SEVERITY_STORAGE_KEY);
+
+    if (storedSeverity !== null && Number.isFinite(Number(storedSeverity))) {
+      setCVDSeverity(Number(storedSeverity));
+    }
     if (stored && CVD_TYPES.some(t => t.id === stored)) {
       setCVDMode(stored);
     }
@@ -0,0 +1,585 @@
+/**
+ * CSS Color Parsing and Formatting
+ * Parses every CSS Color 4 syntax into RGB and formats RGB back into any of them
+ */
+
+import { hexToRgb, rgbToHex, rgbToHsl, hslToRgb, getAlpha, isOpaque } from './contrast';
+import type { RGB } from './contrast';
+import {
+  clampRgb,
+  gamutMapOklch,
+  isInSrgbGamut,
+  normalizeHue,
+  rgbToHwb,
+  hwbToRgb,
+  rgbToLab,
+  labToRgb,
+  rgbToLch,
+  lchToRgb,
+  rgbToOklab,
+  oklabToRgb,
+  rgbToOklch,
+  oklchToRgb,
+  rgbToDisplayP3,
+  displayP3ToRgb,
+  rec2020ToRgb,
+  linearToRgb,
+  xyzToRgb,
+  xyzD50ToRgb,
+} from './color-space';
+import type { Vec3 } from './color-space';
+
+export type ColorFormat =
+  | 'hex'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'display-p3';
+
+export interface ColorFormatInfo {
+  id: ColorFormat;
+  name: string;
+}
+
+export const COLOR_FORMATS: ColorFormatInfo[] = [
+  { id: 'hex', name: 'HEX' },
+  { id: 'rgb', name: 'RGB' },
+  { id: 'hsl', name: 'HSL' },
+  { id: 'hwb', name: 'HWB' },
+  { id: 'lab', name: 'Lab' },
+  { id: 'lch', name: 'LCH' },
+  { id: 'oklab', name: 'OKLab' },
+  { id: 'oklch', name: 'OKLCH' },
+  { id: 'display-p3', name: 'Display P3' },
+];
+
+/**
+ * CSS named colors (CSS Color 4)
+ */
+export const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#F0F8FF',
+  antiquewhite: '#FAEBD7',
+  aqua: '#00FFFF',
+  aquamarine: '#7FFFD4',
+  azure: '#F0FFFF',
+  beige: '#F5F5DC',
+  bisque: '#FFE4C4',
+  black: '#000000',
+  blanchedalmond: '#FFEBCD',
+  blue: '#0000FF',
+  blueviolet: '#8A2BE2',
+  brown: '#A52A2A',
+  burlywood: '#DEB887',
+  cadetblue: '#5F9EA0',
+  chartreuse: '#7FFF00',
+  chocolate: '#D2691E',
+  coral: '#FF7F50',
+  cornflowerblue: '#6495ED',
+  cornsilk: '#FFF8DC',
+  crimson: '#DC143C',
+  cyan: '#00FFFF',
+  darkblue: '#00008B',
+  darkcyan: '#008B8B',
+  darkgoldenrod: '#B8860B',
+  darkgray: '#A9A9A9',
+  darkgreen: '#006400',
+  darkgrey: '#A9A9A9',
+  darkkhaki: '#BDB76B',
+  darkmagenta: '#8B008B',
+  darkolivegreen: '#556B2F',
+  darkorange: '#FF8C00',
+  darkorchid: '#9932CC',
+  darkred: '#8B0000',
+  darksalmon: '#E9967A',
+  darkseagreen: '#8FBC8F',
+  darkslateblue: '#483D8B',
+  darkslategray: '#2F4F4F',
+  darkslategrey: '#2F4F4F',
+  darkturquoise: '#00CED1',
+  darkviolet: '#9400D3',
+  deeppink: '#FF1493',
+  deepskyblue: '#00BFFF',
+  dimgray: '#696969',
+  dimgrey: '#696969',
+  dodgerblue: '#1E90FF',
+  firebrick: '#B22222',
+  floralwhite: '#FFFAF0',
+  forestgreen: '#228B22',
+  fuchsia: '#FF00FF',
+  gainsboro: '#DCDCDC',
+  ghostwhite: '#F8F8FF',
+  gold: '#FFD700',
+  goldenrod: '#DAA520',
+  gray: '#808080',
+  green: '#008000',
+  greenyellow: '#ADFF2F',
+  grey: '#808080',
+  honeydew: '#F0FFF0',
+  hotpink: '#FF69B4',
+  indianred: '#CD5C5C',
+  indigo: '#4B0082',
+  ivory: '#FFFFF0',
+  khaki: '#F0E68C',
+  lavender: '#E6E6FA',
+  lavenderblush: '#FFF0F5',
+  lawngreen: '#7CFC00',
+  lemonchiffon: '#FFFACD',
+  lightblue: '#ADD8E6',
+  lightcoral: '#F08080',
+  lightcyan: '#E0FFFF',
+  lightgoldenrodyellow: '#FAFAD2',
+  lightgray: '#D3D3D3',
+  lightgreen: '#90EE90',
+  lightgrey: '#D3D3D3',
+  lightpink: '#FFB6C1',
+  lightsalmon: '#FFA07A',
+  lightseagreen: '#20B2AA',
+  lightskyblue: '#87CEFA',
+  lightslategray: '#778899',
+  lightslategrey: '#778899',
+  lightsteelblue: '#B0C4DE',
+  lightyellow: '#FFFFE0',
+  lime: '#00FF00',
+  limegreen: '#32CD32',
+  linen: '#FAF0E6',
+  magenta: '#FF00FF',
+  maroon: '#800000',
+  mediumaquamarine: '#66CDAA',
+  mediumblue: '#0000CD',
+  mediumorchid: '#BA55D3',
+  mediumpurple: '#9370DB',
+  mediumseagreen: '#3CB371',
+  mediumslateblue: '#7B68EE',
+  mediumspringgreen: '#00FA9A',
+  mediumturquoise: '#48D1CC',
+  mediumvioletred: '#C71585',
+  midnightblue: '#191970',
+  mintcream: '#F5FFFA',
+  mistyrose: '#FFE4E1',
+  moccasin: '#FFE4B5',
+  navajowhite: '#FFDEAD',
+  navy: '#000080',
+  oldlace: '#FDF5E6',
+  olive: '#808000',
+  olivedrab: '#6B8E23',
+  orange: '#FFA500',
+  orangered: '#FF4500',
+  orchid: '#DA70D6',
+  palegoldenrod: '#EEE8AA',
+  palegreen: '#98FB98',
+  paleturquoise: '#AFEEEE',
+  palevioletred: '#DB7093',
+  papayawhip: '#FFEFD5',
+  peachpuff: '#FFDAB9',
+  peru: '#CD853F',
+  pink: '#FFC0CB',
+  plum: '#DDA0DD',
+  powderblue: '#B0E0E6',
+  purple: '#800080',
+  rebeccapurple: '#663399',
+  red: '#FF0000',
+  rosybrown: '#BC8F8F',
+  royalblue: '#4169E1',
+  saddlebrown: '#8B4513',
+  salmon: '#FA8072',
+  sandybrown: '#F4A460',
+  seagreen: '#2E8B57',
+  seashell: '#FFF5EE',
+  sienna: '#A0522D',
+  silver: '#C0C0C0',
+  skyblue: '#87CEEB',
+  slateblue: '#6A5ACD',
+  slategray: '#708090',
+  slategrey: '#708090',
+  snow: '#FFFAFA',
+  springgreen: '#00FF7F',
+  steelblue: '#4682B4',
+  tan: '#D2B48C',
+  teal: '#008080',
+  thistle: '#D8BFD8',
+  tomato: '#FF6347',
+  turquoise: '#40E0D0',
+  violet: '#EE82EE',
+  wheat: '#F5DEB3',
+  white: '#FFFFFF',
+  whitesmoke: '#F5F5F5',
+  yellow: '#FFFF00',
+  yellowgreen: '#9ACD32',
+};
+
+/**
+ * A single numeric component of a CSS color function
+ */
+interface Component {
+  value: number;
+  unit: '' | '%' | 'deg' | 'rad' | 'grad' | 'turn';
+}
+
+const COMPONENT_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+/**
+ * Parse one component token; `none` resolves to zero
+ */
+function parseComponent(token: string): Component | null {
+  if (token.toLowerCase() === 'none') {
+    return { value: 0, unit: '' };
+  }
+
+  const match = COMPONENT_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    value: parseFloat(match[1]),
+    unit: (match[2]?.toLowerCase() ?? '') as Component['unit'],
+  };
+}
+
+/**
+ * Resolve a component to a number, mapping 100% to `percentScale`
+ */
+function resolveNumber(component: Component, percentScale: number): number | null {
+  if (component.unit === '%') return (component.value / 100) * percentScale;
+  if (component.unit === '') return component.value;
+  return null;
+}
+
+/**
+ * Resolve a hue component to degrees
+ */
+function resolveHue(component: Component): number | null {
+  switch (component.unit) {
+    case '':
+    case 'deg':
+      return component.value;
+    case 'rad':
+      return (component.value * 180) / Math.PI;
+    case 'grad':
+      return component.value * 0.9;
+    case 'turn':
+      return component.value * 360;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the arguments of a color function into channel tokens and an alpha token
+ * Accepts both the modern space-separated and the legacy comma-separated syntax
+ */
+function splitArguments(args: string): { channels: string[]; alpha: string | null } | null {
+  const trimmed = args.trim();
+
+  if (trimmed.includes(',')) {
+    const parts = trimmed.split(',').map((p) => p.trim());
+    if (parts.some((p) => p === '' || /\s/.test(p))) return null;
+    if (parts.length === 4) return { channels: parts.slice(0, 3), alpha: parts[3] };
+    if (parts.length === 3) return { channels: parts, alpha: null };
+    return null;
+  }
+
+  const [channelPart, alphaPart, ...rest] = trimmed.split('/');
+  if (rest.length > 0) return null;
+
+  const channels = channelPart.trim().split(/\s+/).filter(Boolean);
+  const alpha = alphaPart !== undefined ? alphaPart.trim() : null;
+  if (alpha === '') return null;
+
+  return { channels, alpha };
+}
+
+/**
+ * Parse an alpha token to 0-1
+ */
+function parseAlpha(token: string | null): number | null {
+  if (token === null) return 1;
+  const component = parseComponent(token);
+  if (!component) return null;
+  const value = resolveNumber(component, 1);
+  return value === null ? null : Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Convert the channels of a CSS color function to RGB
+ */
+function functionToRgb(name: string, tokens: string[]): RGB | null {
+  const components = tokens.map(parseComponent);
+  if (components.length !== 3 || components.some((c) => c === null)) {
+    return null;
+  }
+  const [c1, c2, c3] = components as Component[];
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const r = resolveNumber(c1, 255);
+      const g = resolveNumber(c2, 255);
+      const b = resolveNumber(c3, 255);
+      if (r === null || g === null || b === null) return null;
+      // Legacy RGB channels clamp rather than reaching outside sRGB
+      return clampRgb({ r, g, b });
+    }
+    case 'hsl':
+    case 'hsla': {
+      const h = resolveHue(c1);
+      const s = resolveNumber(c2, 100);
+      const l = resolveNumber(c3, 100);
+      if (h === null || s === null || l === null) return null;
+      return hslToRgb({ h: normalizeHue(h), s: Math.max(0, Math.min(100, s)), l: Math.max(0, Math.min(100, l)) });
+    }
+    case 'hwb': {
+      const h = resolveHue(c1);
+      const w = resolveNumber(c2, 100);
+      const b = resolveNumber(c3, 100);
+      if (h === null || w === null || b === null) return null;
+      return hwbToRgb({ h, w, b });
+    }
+    case 'lab': {
+      const l = resolveNumber(c1, 100);
+      const a = resolveNumber(c2, 125);
+      const b = resolveNumber(c3, 125);
+      if (l === null || a === null || b === null) return null;
+      return labToRgb({ l: Math.max(0, l), a, b });
+    }
+    case 'lch': {
+      const l = resolveNumber(c1, 100);
+      const c = resolveNumber(c2, 150);
+      const h = resolveHue(c3);
+      if (l === null || c === null || h === null) return null;
+      return lchToRgb({ l: Math.max(0, l), c: Math.max(0, c), h });
+    }
+    case 'oklab': {
+      const l = resolveNumber(c1, 1);
+      const a = resolveNumber(c2, 0.4);
+      const b = resolveNumber(c3, 0.4);
+      if (l === null || a === null || b === null) return null;
+      return oklabToRgb({ l: Math.max(0, l), a, b });
+    }
+    case 'oklch': {
+      const l = resolveNumber(c1, 1);
+      const c = resolveNumber(c2, 0.4);
+      const h = resolveHue(c3);
+      if (l === null || c === null || h === null) return null;
+      return oklchToRgb({ l: Math.max(0, l), c: Math.max(0, c), h });
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert the channels of a CSS `color()` function to RGB
+ */
+function colorFunctionToRgb(space: string, tokens: string[]): RGB | null {
+  const components = tokens.map(parseComponent);
+  if (components.length !== 3 || components.some((c) => c === null)) {
+    return null;
+  }
+
+  const values = (components as Component[]).map((c) => resolveNumber(c, 1));
+  if (values.some((v) => v === null)) {
+    return null;
+  }
+  const v = values as Vec3;
+
+  switch (space) {
+    case 'srgb':
+      return { r: v[0] * 255, g: v[1] * 255, b: v[2] * 255 };
+    case 'srgb-linear':
+      return linearToRgb(v);
+    case 'display-p3':
+      return displayP3ToRgb(v);
+    case 'rec2020':
+      return rec2020ToRgb(v);
+    case 'xyz':
+    case 'xyz-d65':
+      return xyzToRgb(v);
+    case 'xyz-d50':
+      return xyzD50ToRgb(v);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse any CSS color string to RGB without fitting it into sRGB
+ * Wide-gamut colors keep channels outside 0-255, so their exact luminance and
+ * their values in other color spaces can still be worked out.
+ */
+export function parseUnclampedColor(input: string): RGB | null {
+  const value = input.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+
+  if (Object.hasOwn(NAMED_COLORS, value)) {
+    return hexToRgb(NAMED_COLORS[value]);
+  }
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const fn = /^([a-z-]+)\((.*)\)$/.exec(value);
+  if (!fn) {
+    return hexToRgb(value);
+  }
+
+  const [, name, args] = fn;
+  const parsed = splitArguments(args);
+  const alpha = parsed ? parseAlpha(parsed.alpha) : null;
+  if (!parsed || alpha === null) {
+    return null;
+  }
+
+  let rgb: RGB | null;
+  if (name === 'color') {
+    const [space, ...channels] = parsed.channels;
+    rgb = colorFunctionToRgb(space, channels);
+  } else {
+    rgb = functionToRgb(name, parsed.channels);
+  }
+
+  if (!rgb) {
+    return null;
+  }
+
+  if (alpha < 1) {
+    rgb.a = alpha;
+  }
+  return rgb;
+}
+
+/**
+ * Parse any CSS color string to RGB
+ * Supports hex (3, 4, 6 and 8 digits), named colors, rgb()/rgba(), hsl()/hsla(),
+ * hwb(), lab()/lch(), oklab()/oklch() and color(). Alpha is kept on `a` when
+ * below 1. Colors outside the sRGB gamut are gamut mapped with the CSS Color 4
+ * algorithm, as a browser shows them on an sRGB screen. Returns null for
+ * anything that is not a valid color.
+ */
+export function parseColor(input: string): RGB | null {
+  const rgb = parseUnclampedColor(input);
+  if (!rgb) {
+    return null;
+  }
+
+  const fitted = isInSrgbGamut(rgb) ? clampRgb(rgb) : gamutMapOklch(rgbToOklch(rgb));
+  if (rgb.a !== undefined) {
+    fitted.a = rgb.a;
+  }
+  return fitted;
+}
+
+/**
+ * Validate any CSS color string
+ */
+export function isValidColor(input: string): boolean {
+  return parseColor(input) !== null;
+}
+
+/**
+ * Convert any CSS color string to an uppercase hex string
+ * Translucent colors produce 8-digit hex
+ */
+export function toHex(input: string): string | null {
+  const rgb = parseColor(input);
+  return rgb ? rgbToHex(rgb).toUpperCase() : null;
+}
+
+/**
+ * Round a number for display, dropping trailing zeros
+ */
+function round(value: number, digits: number): string {
+  const factor = Math.pow(10, digits);
+  const rounded = Math.round(value * factor) / factor;
+  return (Object.is(rounded, -0) ? 0 : rounded).toString();
+}
+
+/**
+ * Format an RGB color in the given CSS syntax
+ * Translucent colors include their alpha
+ */
+export function formatColor(rgb: RGB, format: ColorFormat): string {
+  if (format === 'hex') {
+    return rgbToHex(rgb).toUpperCase();
+  }
+
+  const alpha = isOpaque(rgb) ? '' : ` / ${round(getAlpha(rgb), 3)}`;
+
+  switch (format) {
+    case 'rgb':
+      return `rgb(${Math.round(rgb.r)} ${Math.round(rgb.g)} ${Math.round(rgb.b)}${alpha})`;
+    case 'hsl': {
+      const hsl = rgbToHsl(rgb);
+      return `hsl(${round(hsl.h, 1)} ${round(hsl.s, 1)}% ${round(hsl.l, 1)}%${alpha})`;
+    }
+    case 'hwb': {
+      const hwb = rgbToHwb(rgb);
+      return `hwb(${round(hwb.h, 1)} ${round(hwb.w, 1)}% ${round(hwb.b, 1)}%${alpha})`;
+    }
+    case 'lab': {
+      const lab = rgbToLab(rgb);
+      return `lab(${round(lab.l, 2)} ${round(lab.a, 2)} ${round(lab.b, 2)}${alpha})`;
+    }
+    case 'lch': {
+      const lch = rgbToLch(rgb);
+      return `lch(${round(lch.l, 2)} ${round(lch.c, 2)} ${round(lch.h, 1)}${alpha})`;
+    }
+    case 'oklab': {
+      const lab = rgbToOklab(rgb);
+      return `oklab(${round(lab.l, 4)} ${round(lab.a, 4)} ${round(lab.b, 4)}${alpha})`;
+    }
+    case 'oklch': {
+      const lch = rgbToOklch(rgb);
+      return `oklch(${round(lch.l, 4)} ${round(lch.c, 4)} ${round(lch.h, 1)}${alpha})`;
+    }
+    case 'display-p3': {
+      const p3 = rgbToDisplayP3(rgb);
+      return `color(display-p3 ${round(p3[0], 4)} ${round(p3[1], 4)} ${round(p3[2], 4)}${alpha})`;
+    }
+  }
+}
+
+/**
+ * State management for the preferred display format
+ */
+let currentColorFormat: ColorFormat = 'hex';
+const COLOR_FORMAT_STORAGE_KEY = 'huepass-color-format';
+
+/**
+ * Get current display format
+ */
+export function getColorFormat(): ColorFormat {
+  return currentColorFormat;
+}
+
+/**
+ * Set display format and notify components
+ */
+export function setColorFormat(format: ColorFormat): void {
+  currentColorFormat = format;
+
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(COLOR_FORMAT_STORAGE_KEY, format);
+  }
+
+  window.dispatchEvent(new CustomEvent('colorFormatChange', { detail: { format } }));
+}
+
+/**
+ * Initialize display format from stored preference
+ */
+export function initColorFormat(): void {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(COLOR_FORMAT_STORAGE_KEY) as ColorFormat | null;
+    if (stored && COLOR_FORMATS.some((f) => f.id === stored)) {
+      currentColorFormat = stored;
+    }
+  }
+}
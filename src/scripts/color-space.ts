@@ -0,0 +1,676 @@
+/**
+ * Color Space Conversion Utilities
+ * Conversions between sRGB and the CSS Color 4 color spaces
+ * (HWB, CIE Lab/LCH, OKLab/OKLCH, Display P3, Rec.2020 and XYZ)
+ */
+
+import type { RGB } from './contrast';
+
+export type Vec3 = [number, number, number];
+
+// RGB color spaces a color can be tagged with and mapped into
+export type RGBColorSpace = 'srgb' | 'display-p3' | 'rec2020';
+
+export interface HWB {
+  h: number;
+  w: number;
+  b: number;
+}
+
+/**
+ * CIE Lab (D50), lightness 0-100
+ */
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * CIE LCH (D50), lightness 0-100, hue in degrees
+ */
+export interface LCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * OKLab, lightness 0-1
+ */
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * OKLCH, lightness 0-1, hue in degrees
+ */
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * Conversion matrices (CSS Color 4 sample code)
+ */
+const LINEAR_SRGB_TO_XYZ: number[][] = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: number[][] = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const LINEAR_P3_TO_XYZ: number[][] = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const XYZ_TO_LINEAR_P3: number[][] = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+
+const LINEAR_REC2020_TO_XYZ: number[][] = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+const XYZ_TO_LINEAR_REC2020: number[][] = [
+  [1.7166511879712674, -0.35567078377639233, -0.25336628137365974],
+  [-0.6666843518324892, 1.6164812366349395, 0.01576854581391113],
+  [0.017639857445310783, -0.042770613257808524, 0.9421031212354738],
+];
+
+// Bradford chromatic adaptation between the D65 and D50 white points
+const D65_TO_D50: number[][] = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+
+const D50_TO_D65: number[][] = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+const LINEAR_SRGB_TO_LMS: number[][] = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+
+const LMS_TO_LINEAR_SRGB: number[][] = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.707614701],
+];
+
+const LMS_TO_OKLAB: number[][] = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+
+const OKLAB_TO_LMS: number[][] = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.291485548],
+];
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+// Rec.2020 transfer function constants
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * Multiply a 3x3 matrix by a vector
+ */
+function multiply(matrix: number[][], v: Vec3): Vec3 {
+  return [
+    matrix[0][0] * v[0] + matrix[0][1] * v[1] + matrix[0][2] * v[2],
+    matrix[1][0] * v[0] + matrix[1][1] * v[1] + matrix[1][2] * v[2],
+    matrix[2][0] * v[0] + matrix[2][1] * v[1] + matrix[2][2] * v[2],
+  ];
+}
+
+/**
+ * Normalize a hue angle to the 0-360 range
+ */
+export function normalizeHue(h: number): number {
+  return ((h % 360) + 360) % 360;
+}
+
+/**
+ * Convert a gamma-encoded sRGB channel (0-1) to linear light
+ * Also used by Display P3, which shares the sRGB transfer curve
+ */
+export function srgbChannelToLinear(value: number): number {
+  const abs = Math.abs(value);
+  if (abs <= 0.04045) {
+    return value / 12.92;
+  }
+  return Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear-light channel (0-1) to gamma-encoded sRGB
+ */
+export function linearChannelToSrgb(value: number): number {
+  const abs = Math.abs(value);
+  if (abs <= 0.0031308) {
+    return value * 12.92;
+  }
+  return Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+/**
+ * Convert RGB (0-255) to linear-light sRGB (0-1)
+ */
+export function rgbToLinear(rgb: RGB): Vec3 {
+  return [
+    srgbChannelToLinear(rgb.r / 255),
+    srgbChannelToLinear(rgb.g / 255),
+    srgbChannelToLinear(rgb.b / 255),
+  ];
+}
+
+/**
+ * Convert linear-light sRGB (0-1) to RGB (0-255)
+ * The result is not clamped, so out-of-gamut colors stay detectable
+ */
+export function linearToRgb(linear: Vec3): RGB {
+  return {
+    r: linearChannelToSrgb(linear[0]) * 255,
+    g: linearChannelToSrgb(linear[1]) * 255,
+    b: linearChannelToSrgb(linear[2]) * 255,
+  };
+}
+
+/**
+ * Check whether an RGB color lies inside the sRGB gamut
+ */
+export function isInSrgbGamut(rgb: RGB, tolerance: number = 0.5): boolean {
+  return [rgb.r, rgb.g, rgb.b].every((c) => c >= -tolerance && c <= 255 + tolerance);
+}
+
+/**
+ * Clamp RGB channels to the 0-255 range
+ */
+export function clampRgb(rgb: RGB): RGB {
+  const clamp = (n: number) => Math.max(0, Math.min(255, n));
+  return { ...rgb, r: clamp(rgb.r), g: clamp(rgb.g), b: clamp(rgb.b) };
+}
+
+/**
+ * Convert RGB to CIE XYZ (D65)
+ */
+export function rgbToXyz(rgb: RGB): Vec3 {
+  return multiply(LINEAR_SRGB_TO_XYZ, rgbToLinear(rgb));
+}
+
+/**
+ * Convert CIE XYZ (D65) to RGB
+ */
+export function xyzToRgb(xyz: Vec3): RGB {
+  return linearToRgb(multiply(XYZ_TO_LINEAR_SRGB, xyz));
+}
+
+/**
+ * Convert RGB to CIE XYZ (D50)
+ */
+export function rgbToXyzD50(rgb: RGB): Vec3 {
+  return multiply(D65_TO_D50, rgbToXyz(rgb));
+}
+
+/**
+ * Convert CIE XYZ (D50) to RGB
+ */
+export function xyzD50ToRgb(xyz: Vec3): RGB {
+  return xyzToRgb(multiply(D50_TO_D65, xyz));
+}
+
+/**
+ * Convert RGB to CIE Lab (D50)
+ */
+export function rgbToLab(rgb: RGB): Lab {
+  const xyz = rgbToXyzD50(rgb);
+  const f = xyz.map((v, i) => {
+    const t = v / D50_WHITE[i];
+    return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+  });
+
+  return {
+    l: 116 * f[1] - 16,
+    a: 500 * (f[0] - f[1]),
+    b: 200 * (f[1] - f[2]),
+  };
+}
+
+/**
+ * Convert CIE Lab (D50) to RGB
+ */
+export function labToRgb(lab: Lab): RGB {
+  const fy = (lab.l + 16) / 116;
+  const fx = lab.a / 500 + fy;
+  const fz = fy - lab.b / 200;
+
+  const x = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+  const y = lab.l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : lab.l / LAB_KAPPA;
+  const z = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+
+  return xyzD50ToRgb([x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]);
+}
+
+/**
+ * Convert rectangular a/b coordinates to chroma and hue
+ */
+function toPolar(a: number, b: number): { c: number; h: number } {
+  const c = Math.sqrt(a * a + b * b);
+  const h = c < 1e-4 ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return { c, h };
+}
+
+/**
+ * Convert chroma and hue to rectangular a/b coordinates
+ */
+function fromPolar(c: number, h: number): { a: number; b: number } {
+  const radians = (h * Math.PI) / 180;
+  return { a: c * Math.cos(radians), b: c * Math.sin(radians) };
+}
+
+/**
+ * Convert RGB to CIE LCH (D50)
+ */
+export function rgbToLch(rgb: RGB): LCH {
+  const lab = rgbToLab(rgb);
+  return { l: lab.l, ...toPolar(lab.a, lab.b) };
+}
+
+/**
+ * Convert CIE LCH (D50) to RGB
+ */
+export function lchToRgb(lch: LCH): RGB {
+  return labToRgb({ l: lch.l, ...fromPolar(lch.c, lch.h) });
+}
+
+/**
+ * Convert linear-light sRGB to OKLab
+ */
+export function linearToOklab(linear: Vec3): OKLab {
+  const lms = multiply(LINEAR_SRGB_TO_LMS, linear).map(Math.cbrt) as Vec3;
+  const [l, a, b] = multiply(LMS_TO_OKLAB, lms);
+  return { l, a, b };
+}
+
+/**
+ * Convert OKLab to linear-light sRGB
+ */
+export function oklabToLinear(lab: OKLab): Vec3 {
+  const lms = multiply(OKLAB_TO_LMS, [lab.l, lab.a, lab.b]).map((v) => v * v * v) as Vec3;
+  return multiply(LMS_TO_LINEAR_SRGB, lms);
+}
+
+/**
+ * Convert RGB to OKLab
+ */
+export function rgbToOklab(rgb: RGB): OKLab {
+  return linearToOklab(rgbToLinear(rgb));
+}
+
+/**
+ * Convert OKLab to RGB
+ */
+export function oklabToRgb(lab: OKLab): RGB {
+  return linearToRgb(oklabToLinear(lab));
+}
+
+/**
+ * Convert RGB to OKLCH
+ */
+export function rgbToOklch(rgb: RGB): OKLCH {
+  const lab = rgbToOklab(rgb);
+  return { l: lab.l, ...toPolar(lab.a, lab.b) };
+}
+
+/**
+ * Convert OKLCH to RGB
+ */
+export function oklchToRgb(lch: OKLCH): RGB {
+  return oklabToRgb({ l: lch.l, ...fromPolar(lch.c, lch.h) });
+}
+
+/**
+ * Convert RGB to HWB
+ */
+export function rgbToHwb(rgb: RGB): HWB {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+
+  let h = 0;
+  if (d !== 0) {
+    switch (max) {
+      case r:
+        h = ((g - b) / d + (g < b ? 6 : 0)) * 60;
+        break;
+      case g:
+        h = ((b - r) / d + 2) * 60;
+        break;
+      case b:
+        h = ((r - g) / d + 4) * 60;
+        break;
+    }
+  }
+
+  return { h, w: min * 100, b: (1 - max) * 100 };
+}
+
+/**
+ * Convert HWB to RGB
+ */
+export function hwbToRgb(hwb: HWB): RGB {
+  const w = hwb.w / 100;
+  const bl = hwb.b / 100;
+
+  // Whiteness and blackness are normalized when they add up to more than 100%
+  if (w + bl >= 1) {
+    const gray = (w / (w + bl)) * 255;
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const hue = normalizeHue(hwb.h) / 60;
+  const channel = (n: number) => {
+    const k = (n + hue) % 6;
+    const v = 1 - Math.max(0, Math.min(k, 4 - k, 1));
+    return (v * (1 - w - bl) + w) * 255;
+  };
+
+  return { r: channel(5), g: channel(3), b: channel(1) };
+}
+
+/**
+ * Convert RGB to gamma-encoded Display P3 components (0-1)
+ */
+export function rgbToDisplayP3(rgb: RGB): Vec3 {
+  const linear = multiply(XYZ_TO_LINEAR_P3, rgbToXyz(rgb));
+  return linear.map(linearChannelToSrgb) as Vec3;
+}
+
+/**
+ * Convert gamma-encoded Display P3 components (0-1) to RGB
+ */
+export function displayP3ToRgb(p3: Vec3): RGB {
+  const linear = p3.map(srgbChannelToLinear) as Vec3;
+  return xyzToRgb(multiply(LINEAR_P3_TO_XYZ, linear));
+}
+
+/**
+ * Convert a gamma-encoded Rec.2020 channel (0-1) to linear light
+ */
+function rec2020ChannelToLinear(value: number): number {
+  const abs = Math.abs(value);
+  if (abs < REC2020_BETA * 4.5) {
+    return value / 4.5;
+  }
+  return Math.sign(value) * Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45);
+}
+
+/**
+ * Convert a linear-light channel (0-1) to gamma-encoded Rec.2020
+ */
+function linearChannelToRec2020(value: number): number {
+  const abs = Math.abs(value);
+  if (abs < REC2020_BETA) {
+    return value * 4.5;
+  }
+  return Math.sign(value) * (REC2020_ALPHA * Math.pow(abs, 0.45) - (REC2020_ALPHA - 1));
+}
+
+/**
+ * Convert RGB to gamma-encoded Rec.2020 components (0-1)
+ */
+export function rgbToRec2020(rgb: RGB): Vec3 {
+  const linear = multiply(XYZ_TO_LINEAR_REC2020, rgbToXyz(rgb));
+  return linear.map(linearChannelToRec2020) as Vec3;
+}
+
+/**
+ * Convert gamma-encoded Rec.2020 components (0-1) to RGB
+ */
+export function rec2020ToRgb(rec2020: Vec3): RGB {
+  const linear = rec2020.map(rec2020ChannelToLinear) as Vec3;
+  return xyzToRgb(multiply(LINEAR_REC2020_TO_XYZ, linear));
+}
+
+/**
+ * Convert RGB to the gamma-encoded components (0-1) of an RGB color space
+ * Components are not clamped, so values outside 0-1 mark colors the space cannot show
+ */
+export function rgbToColorSpace(rgb: RGB, space: RGBColorSpace): Vec3 {
+  switch (space) {
+    case 'display-p3':
+      return rgbToDisplayP3(rgb);
+    case 'rec2020':
+      return rgbToRec2020(rgb);
+    default:
+      return [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+  }
+}
+
+/**
+ * Convert gamma-encoded components (0-1) of an RGB color space to RGB
+ */
+export function colorSpaceToRgb(components: Vec3, space: RGBColorSpace): RGB {
+  switch (space) {
+    case 'display-p3':
+      return displayP3ToRgb(components);
+    case 'rec2020':
+      return rec2020ToRgb(components);
+    default:
+      return { r: components[0] * 255, g: components[1] * 255, b: components[2] * 255 };
+  }
+}
+
+/**
+ * Check whether an RGB color lies inside the gamut of an RGB color space
+ * The tolerance is in 8-bit steps, as for isInSrgbGamut.
+ */
+export function isInGamut(rgb: RGB, space: RGBColorSpace, tolerance: number = 0.5): boolean {
+  const margin = tolerance / 255;
+  return rgbToColorSpace(rgb, space).every((c) => c >= -margin && c <= 1 + margin);
+}
+
+/**
+ * Color difference in OKLab (Euclidean distance)
+ */
+export function deltaEOK(lab1: OKLab, lab2: OKLab): number {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) + Math.pow(lab1.a - lab2.a, 2) + Math.pow(lab1.b - lab2.b, 2)
+  );
+}
+
+/**
+ * Color difference using CIEDE2000 (Sharma, Wu & Dalal 2005)
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const pow7 = (v: number) => Math.pow(v, 7);
+
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cBar = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(pow7(cBar) / (pow7(cBar) + pow7(25))));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const c1p = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const c2p = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const h1p = c1p === 0 ? 0 : normalizeHue((Math.atan2(lab1.b, a1) * 180) / Math.PI);
+  const h2p = c2p === 0 ? 0 : normalizeHue((Math.atan2(lab2.b, a2) * 180) / Math.PI);
+
+  const deltaL = lab2.l - lab1.l;
+  const deltaC = c2p - c1p;
+
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaH) / 2);
+
+  const lBar = (lab1.l + lab2.l) / 2;
+  const cBarP = (c1p + c2p) / 2;
+
+  let hBar = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBar = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBar = (h1p + h2p + 360) / 2;
+    else hBar = (h1p + h2p - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hBar - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBar)) +
+    0.32 * Math.cos(toRadians(3 * hBar + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBar - 63));
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBar - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(pow7(cBarP) / (pow7(cBarP) + pow7(25)));
+  const sl = 1 + (0.015 * Math.pow(lBar - 50, 2)) / Math.sqrt(20 + Math.pow(lBar - 50, 2));
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  const l = deltaL / sl;
+  const c = deltaC / sc;
+  const h = deltaHp / sh;
+
+  return Math.sqrt(l * l + c * c + h * h + rt * c * h);
+}
+
+/**
+ * CIEDE2000 difference between two RGB colors
+ */
+export function getDeltaE2000(rgb1: RGB, rgb2: RGB): number {
+  return deltaE2000(rgbToLab(rgb1), rgbToLab(rgb2));
+}
+
+/**
+ * Map an OKLCH color into the gamut of an RGB color space (sRGB by default)
+ * CSS Color 4 gamut mapping: reduce chroma at constant lightness and hue until
+ * clipping the result is no longer noticeable (deltaEOK below the JND). The
+ * result is RGB, unclamped when the destination is wider than sRGB.
+ */
+export function gamutMapOklch(origin: OKLCH, space: RGBColorSpace = 'srgb'): RGB {
+  const JND = 0.02;
+  const EPSILON = 0.0001;
+
+  if (origin.l >= 1) return { r: 255, g: 255, b: 255 };
+  if (origin.l <= 0) return { r: 0, g: 0, b: 0 };
+
+  const inGamut = (rgb: RGB) => isInGamut(rgb, space, 0);
+  const clip = (rgb: RGB): RGB =>
+    space === 'srgb'
+      ? clampRgb(rgb)
+      : colorSpaceToRgb(rgbToColorSpace(rgb, space).map((c) => Math.max(0, Math.min(1, c))) as Vec3, space);
+
+  const originRgb = oklchToRgb(origin);
+  if (inGamut(originRgb)) {
+    return originRgb;
+  }
+
+  const clipDistance = (lch: OKLCH): { clipped: RGB; distance: number } => {
+    const clipped = clip(oklchToRgb(lch));
+    const current = { l: lch.l, ...fromPolar(lch.c, lch.h) };
+    return { clipped, distance: deltaEOK(rgbToOklab(clipped), current) };
+  };
+
+  let { clipped, distance } = clipDistance(origin);
+  if (distance < JND) {
+    return clipped;
+  }
+
+  let min = 0;
+  let max = origin.c;
+  let minInGamut = true;
+
+  while (max - min > EPSILON) {
+    const chroma = (min + max) / 2;
+    const current: OKLCH = { l: origin.l, c: chroma, h: origin.h };
+
+    if (minInGamut && inGamut(oklchToRgb(current))) {
+      min = chroma;
+      continue;
+    }
+
+    ({ clipped, distance } = clipDistance(current));
+    if (distance < JND) {
+      if (JND - distance < EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+}
+
+/**
+ * Search OKLCH lightness for the color closest to `rgb` that satisfies `passes`
+ * Hue and chroma are held while lightness moves in one direction; each step is
+ * gamut mapped, so chroma only drops where sRGB cannot hold it. Returns an
+ * 8-bit in-gamut color, or null if even the lightness extreme fails.
+ */
+export function searchOklchLightness(
+  rgb: RGB,
+  passes: (candidate: RGB) => boolean,
+  direction: 'lighter' | 'darker'
+): RGB | null {
+  const origin = rgbToOklch(rgb);
+  const quantize = (lch: OKLCH): RGB => {
+    const mapped = gamutMapOklch(lch);
+    return { r: Math.round(mapped.r), g: Math.round(mapped.g), b: Math.round(mapped.b) };
+  };
+
+  const extreme = direction === 'lighter' ? 1 : 0;
+  if (!passes(quantize({ ...origin, l: extreme }))) {
+    return null;
+  }
+
+  // Binary search between the failing origin and the passing extreme
+  let failing = origin.l;
+  let passing = extreme;
+  for (let i = 0; i < 24; i++) {
+    const mid = (failing + passing) / 2;
+    if (passes(quantize({ ...origin, l: mid }))) {
+      passing = mid;
+    } else {
+      failing = mid;
+    }
+  }
+
+  return quantize({ ...origin, l: passing });
+}
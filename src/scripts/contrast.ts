@@ -3,10 +3,13 @@
  * Based on WCAG 2.1 guidelines for contrast ratio calculation
  */
 
+import { searchOklchLightness, getDeltaE2000 } from './color-space';
+
 export interface RGB {
   r: number;
   g: number;
   b: number;
+  a?: number; // Alpha 0-1, opaque when omitted
 }
 
 export interface HSL {
@@ -25,6 +28,13 @@ export interface ContrastResult {
   uiComponents: boolean;
 }
 
+export interface ContrastRange {
+  min: number;
+  max: number;
+  minBackdrop: RGB;
+  maxBackdrop: RGB;
+}
+
 export interface WCAGLevel {
   level: 'AAA' | 'AA' | 'Fail';
   label: string;
@@ -41,43 +51,100 @@ export const WCAG_THRESHOLDS = {
 
 /**
  * Parse a hex color string to RGB values
+ * Accepts 3, 4, 6 or 8 digits; 4 and 8 digit hex carry alpha
  */
 export function hexToRgb(hex: string): RGB | null {
   const sanitized = hex.replace(/^#/, '');
 
   let fullHex = sanitized;
-  if (sanitized.length === 3) {
+  if (sanitized.length === 3 || sanitized.length === 4) {
     fullHex = sanitized
       .split('')
       .map((c) => c + c)
       .join('');
   }
 
-  if (fullHex.length !== 6) {
+  if (fullHex.length !== 6 && fullHex.length !== 8) {
     return null;
   }
 
-  const result = /^([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(fullHex);
+  const result = /^([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})?$/i.exec(fullHex);
   if (!result) {
     return null;
   }
 
-  return {
+  const rgb: RGB = {
     r: parseInt(result[1], 16),
     g: parseInt(result[2], 16),
     b: parseInt(result[3], 16),
   };
+
+  if (result[4] !== undefined) {
+    rgb.a = parseInt(result[4], 16) / 255;
+  }
+
+  return rgb;
 }
 
 /**
  * Convert RGB to hex string
+ * Translucent colors produce 8-digit hex
  */
 export function rgbToHex(rgb: RGB): string {
   const toHex = (n: number) => {
     const clamped = Math.max(0, Math.min(255, Math.round(n)));
     return clamped.toString(16).padStart(2, '0');
   };
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+  const alpha = isOpaque(rgb) ? '' : toHex(getAlpha(rgb) * 255);
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}${alpha}`;
+}
+
+/**
+ * Get the alpha of a color (1 when omitted)
+ */
+export function getAlpha(rgb: RGB): number {
+  return rgb.a === undefined ? 1 : Math.max(0, Math.min(1, rgb.a));
+}
+
+/**
+ * Check whether a color is fully opaque
+ */
+export function isOpaque(rgb: RGB): boolean {
+  return getAlpha(rgb) >= 1;
+}
+
+/**
+ * Composite a color over another using source-over alpha blending
+ * Blends in gamma-encoded sRGB, matching how browsers paint
+ */
+export function compositeColors(top: RGB, bottom: RGB): RGB {
+  const topAlpha = getAlpha(top);
+  const bottomAlpha = getAlpha(bottom);
+  const alpha = topAlpha + bottomAlpha * (1 - topAlpha);
+
+  if (alpha === 0) {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const blend = (t: number, b: number) => (t * topAlpha + b * bottomAlpha * (1 - topAlpha)) / alpha;
+  const result: RGB = {
+    r: blend(top.r, bottom.r),
+    g: blend(top.g, bottom.g),
+    b: blend(top.b, bottom.b),
+  };
+
+  if (alpha < 1) {
+    result.a = alpha;
+  }
+
+  return result;
+}
+
+/**
+ * Composite a stack of layers, ordered bottom first
+ */
+export function compositeLayers(layers: RGB[]): RGB {
+  return layers.reduce((bottom, top) => compositeColors(top, bottom), { r: 0, g: 0, b: 0, a: 0 } as RGB);
 }
 
 /**
@@ -157,22 +224,23 @@ export function hslToRgb(hsl: HSL): RGB {
 
 /**
  * Calculate relative luminance of a color
- * Based on WCAG 2.1 formula
+ * Based on WCAG 2.1 formula. Wide-gamut colors arrive as RGB outside 0-255;
+ * the curve is mirrored below zero (extended sRGB, as in CSS Color 4), so
+ * their luminance is exact rather than that of the clipped color.
  */
 export function getRelativeLuminance(rgb: RGB): number {
   const sRGB = [rgb.r, rgb.g, rgb.b].map((c) => {
-    const s = c / 255;
-    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    const s = Math.abs(c) / 255;
+    return Math.sign(c) * (s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4));
   });
 
-  return 0.2126 * sRGB[0] + 0.7152 * sRGB[1] + 0.0722 * sRGB[2];
+  return Math.max(0, 0.2126 * sRGB[0] + 0.7152 * sRGB[1] + 0.0722 * sRGB[2]);
 }
 
 /**
- * Calculate contrast ratio between two colors
- * Returns a value between 1 and 21
+ * Calculate contrast ratio between two opaque colors
  */
-export function getContrastRatio(color1: RGB, color2: RGB): number {
+function getOpaqueContrastRatio(color1: RGB, color2: RGB): number {
   const l1 = getRelativeLuminance(color1);
   const l2 = getRelativeLuminance(color2);
 
@@ -182,6 +250,70 @@ export function getContrastRatio(color1: RGB, color2: RGB): number {
   return (lighter + 0.05) / (darker + 0.05);
 }
 
+/**
+ * Calculate contrast ratio between two colors
+ * Returns a value between 1 and 21. A translucent first color is composited
+ * over the second. A translucent second color has an unknown backdrop, so the
+ * worst case from getContrastRange is returned.
+ */
+export function getContrastRatio(color1: RGB, color2: RGB): number {
+  if (!isOpaque(color2)) {
+    return getContrastRange(color1, [color2]).min;
+  }
+
+  return getOpaqueContrastRatio(compositeColors(color1, color2), color2);
+}
+
+/**
+ * Opaque backdrops used to estimate contrast when the bottom layer is unknown:
+ * the corners of the RGB cube plus every gray level
+ */
+export function getBackdropSamples(): RGB[] {
+  const samples: RGB[] = [];
+  for (const r of [0, 255]) {
+    for (const g of [0, 255]) {
+      for (const b of [0, 255]) {
+        samples.push({ r, g, b });
+      }
+    }
+  }
+  for (let v = 1; v < 255; v++) {
+    samples.push({ r: v, g: v, b: v });
+  }
+  return samples;
+}
+
+/**
+ * Calculate the range of contrast ratios for a foreground over a stack of layers
+ * Layers are ordered bottom first. When the bottom layer is opaque the range
+ * collapses to a single ratio; otherwise every backdrop sample is tried.
+ */
+export function getContrastRange(foreground: RGB, layers: RGB[]): ContrastRange {
+  const hasOpaqueBase = layers.length > 0 && isOpaque(layers[0]);
+  const backdrops = hasOpaqueBase ? [layers[0]] : getBackdropSamples();
+
+  let range: ContrastRange | null = null;
+  for (const backdrop of backdrops) {
+    const background = compositeLayers([backdrop, ...layers]);
+    const ratio = getOpaqueContrastRatio(compositeColors(foreground, background), background);
+
+    if (!range) {
+      range = { min: ratio, max: ratio, minBackdrop: backdrop, maxBackdrop: backdrop };
+      continue;
+    }
+    if (ratio < range.min) {
+      range.min = ratio;
+      range.minBackdrop = backdrop;
+    }
+    if (ratio > range.max) {
+      range.max = ratio;
+      range.maxBackdrop = backdrop;
+    }
+  }
+
+  return range!;
+}
+
 /**
  * Format contrast ratio for display
  */
@@ -232,47 +364,29 @@ export function getLargeTextLevel(ratio: number): WCAGLevel {
 
 /**
  * Find a suggested color that passes a target contrast ratio
- * Adjusts lightness while preserving hue and saturation
+ * Moves OKLCH lightness while holding hue and chroma, trying both directions
+ * and returning the candidate closest to the original by CIEDE2000.
+ * Both colors should be opaque; composite translucent colors first.
  */
 export function findPassingColor(
   colorToAdjust: RGB,
   referenceColor: RGB,
   targetRatio: number = WCAG_THRESHOLDS.normalTextAA
 ): RGB | null {
-  const hsl = rgbToHsl(colorToAdjust);
-  const refLuminance = getRelativeLuminance(referenceColor);
+  const passes = (candidate: RGB) => getContrastRatio(candidate, referenceColor) >= targetRatio;
 
-  // Try adjusting lightness in both directions
-  const tryLightness = (targetL: number): RGB | null => {
-    const testHsl = { ...hsl, l: Math.max(0, Math.min(100, targetL)) };
-    const testRgb = hslToRgb(testHsl);
-    const ratio = getContrastRatio(testRgb, referenceColor);
+  const candidates = [
+    searchOklchLightness(colorToAdjust, passes, 'lighter'),
+    searchOklchLightness(colorToAdjust, passes, 'darker'),
+  ].filter((candidate): candidate is RGB => candidate !== null);
 
-    if (ratio >= targetRatio) {
-      return testRgb;
-    }
+  if (candidates.length === 0) {
     return null;
-  };
-
-  // Determine if we should go lighter or darker based on reference color luminance
-  const goLighter = refLuminance < 0.5;
-  const step = 1;
-
-  // Try primary direction first
-  for (let i = 0; i <= 100; i += step) {
-    const targetL = goLighter ? Math.min(100, hsl.l + i) : Math.max(0, hsl.l - i);
-    const result = tryLightness(targetL);
-    if (result) return result;
-  }
-
-  // Try opposite direction if primary failed
-  for (let i = 0; i <= 100; i += step) {
-    const targetL = goLighter ? Math.max(0, hsl.l - i) : Math.min(100, hsl.l + i);
-    const result = tryLightness(targetL);
-    if (result) return result;
   }
 
-  return null;
+  return candidates.reduce((best, candidate) =>
+    getDeltaE2000(candidate, colorToAdjust) < getDeltaE2000(best, colorToAdjust) ? candidate : best
+  );
 }
 
 /**
@@ -314,10 +428,11 @@ export function generateAccessiblePair(): { foreground: string; background: stri
 }
 
 /**
- * Validate a hex color string
+ * Validate a hex color string (3, 4, 6 or 8 digits)
+ * Use parseColor from color-parser for other CSS color syntaxes
  */
 export function isValidHex(hex: string): boolean {
-  return /^#?([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(hex);
+  return /^#?([A-Fa-f0-9]{8}|[A-Fa-f0-9]{6}|[A-Fa-f0-9]{3,4})$/.test(hex);
 }
 
 /**
@@ -326,7 +441,7 @@ export function isValidHex(hex: string): boolean {
 export function normalizeHex(hex: string): string {
   let sanitized = hex.replace(/^#/, '').toUpperCase();
 
-  if (sanitized.length === 3) {
+  if (sanitized.length === 3 || sanitized.length === 4) {
     sanitized = sanitized
       .split('')
       .map((c) => c + c)
@@ -0,0 +1,668 @@
+/**
+ * Gradient Contrast Utilities
+ * Parses CSS linear and radial gradients and measures text contrast across every point of them
+ */
+
+import { rgbToHex, rgbToHsl, hslToRgb, getContrastRange, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { parseColor } from './color-parser';
+import {
+  clampRgb,
+  normalizeHue,
+  rgbToLinear,
+  linearToRgb,
+  rgbToLab,
+  labToRgb,
+  rgbToLch,
+  lchToRgb,
+  rgbToOklab,
+  oklabToRgb,
+  rgbToOklch,
+  oklchToRgb,
+  rgbToHwb,
+  hwbToRgb,
+  rgbToXyz,
+  xyzToRgb,
+  rgbToXyzD50,
+  xyzD50ToRgb,
+  rgbToDisplayP3,
+  displayP3ToRgb,
+  rgbToRec2020,
+  rec2020ToRgb,
+  searchOklchLightness,
+  getDeltaE2000,
+} from './color-space';
+import type { Vec3 } from './color-space';
+import { SUGGESTION_TARGETS } from './suggestions';
+import type { SuggestionTarget } from './suggestions';
+
+export type GradientType = 'linear' | 'radial';
+
+export type InterpolationSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'rec2020'
+  | 'lab'
+  | 'oklab'
+  | 'xyz'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'hsl'
+  | 'hwb'
+  | 'lch'
+  | 'oklch';
+
+export type HueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+export interface GradientStop {
+  color: RGB;
+  position: number; // 0-1 along the gradient line, after fixup
+  source: number; // Index of the stop's color in `colors`
+}
+
+export interface GradientColor {
+  start: number; // Offsets of the color text in the original CSS
+  end: number;
+  text: string;
+}
+
+export interface Gradient {
+  type: GradientType;
+  repeating: boolean;
+  space: InterpolationSpace;
+  hue: HueInterpolation;
+  stops: GradientStop[];
+  hints: Array<number | null>; // Transition hint between stop i and i + 1
+  colors: GradientColor[]; // Colors as written, a double-position stop lists its color once
+}
+
+export interface GradientSample {
+  position: number; // 0-1 along the gradient line
+  color: RGB;
+}
+
+export interface GradientSpan {
+  start: number; // 0-1 along the gradient line
+  end: number;
+}
+
+export interface GradientContrast {
+  min: number; // Lowest ratio anywhere on the gradient, worst case over an unknown backdrop
+  max: number;
+  worst: GradientSample;
+  samples: Array<GradientSample & { ratio: number }>;
+  failing: GradientSpan[]; // Spans below the threshold
+}
+
+export interface GradientSuggestion {
+  target: SuggestionTarget;
+  adjusted: 'foreground' | 'stop';
+  rgb: RGB;
+  hex: string;
+  css?: string; // The gradient with the stop replaced, when a stop is adjusted
+  stop?: number; // Index in `colors` of the adjusted stop
+  min: number; // Lowest ratio across the gradient after the change
+  deltaE: number; // CIEDE2000 from the original color
+}
+
+// Evenly spaced samples along the gradient line; stop positions are sampled too
+export const GRADIENT_SAMPLES = 400;
+
+// Coarser sampling while searching for suggestions; candidates are rechecked with GRADIENT_SAMPLES
+const SEARCH_SAMPLES = 48;
+
+// Spaces whose first or last channel is a hue angle
+const HUE_CHANNEL: Partial<Record<InterpolationSpace, number>> = { hsl: 0, hwb: 0, lch: 2, oklch: 2 };
+
+// Color functions that CSS treats as legacy sRGB syntax
+const LEGACY_FUNCTIONS = /^(rgba?|hsla?|hwb)\(/;
+
+const INTERPOLATION_SPACES: InterpolationSpace[] = [
+  'srgb', 'srgb-linear', 'display-p3', 'rec2020', 'lab', 'oklab', 'xyz', 'xyz-d50', 'xyz-d65', 'hsl', 'hwb', 'lch', 'oklch',
+];
+
+// Tokens of the gradient line or shape that comes before the first stop
+const ANGLE = /^(0|[-+]?(\d+\.?\d*|\.\d+)(deg|grad|rad|turn))$/;
+const LENGTH = /^(0|[-+]?(\d+\.?\d*|\.\d+)(px|em|rem|ex|ch|lh|rlh|vw|vh|vi|vb|vmin|vmax|cm|mm|q|in|pt|pc))$/;
+const PERCENTAGE = /^[-+]?(\d+\.?\d*|\.\d+)%$/;
+const RADIAL_EXTENTS = ['closest-side', 'closest-corner', 'farthest-side', 'farthest-corner'];
+const POSITION_KEYWORDS = ['left', 'center', 'right', 'top', 'bottom'];
+
+/**
+ * Convert RGB into the channels of an interpolation space
+ */
+function toSpace(rgb: RGB, space: InterpolationSpace): Vec3 {
+  switch (space) {
+    case 'srgb':
+      return [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+    case 'srgb-linear':
+      return rgbToLinear(rgb);
+    case 'display-p3':
+      return rgbToDisplayP3(rgb);
+    case 'rec2020':
+      return rgbToRec2020(rgb);
+    case 'lab': {
+      const { l, a, b } = rgbToLab(rgb);
+      return [l, a, b];
+    }
+    case 'oklab': {
+      const { l, a, b } = rgbToOklab(rgb);
+      return [l, a, b];
+    }
+    case 'xyz':
+    case 'xyz-d65':
+      return rgbToXyz(rgb);
+    case 'xyz-d50':
+      return rgbToXyzD50(rgb);
+    case 'hsl': {
+      const { h, s, l } = rgbToHsl(rgb);
+      return [h, s, l];
+    }
+    case 'hwb': {
+      const { h, w, b } = rgbToHwb(rgb);
+      return [h, w, b];
+    }
+    case 'lch': {
+      const { l, c, h } = rgbToLch(rgb);
+      return [l, c, h];
+    }
+    case 'oklch': {
+      const { l, c, h } = rgbToOklch(rgb);
+      return [l, c, h];
+    }
+  }
+}
+
+/**
+ * Convert the channels of an interpolation space back to RGB
+ */
+function fromSpace(v: Vec3, space: InterpolationSpace): RGB {
+  switch (space) {
+    case 'srgb':
+      return { r: v[0] * 255, g: v[1] * 255, b: v[2] * 255 };
+    case 'srgb-linear':
+      return linearToRgb(v);
+    case 'display-p3':
+      return displayP3ToRgb(v);
+    case 'rec2020':
+      return rec2020ToRgb(v);
+    case 'lab':
+      return labToRgb({ l: v[0], a: v[1], b: v[2] });
+    case 'oklab':
+      return oklabToRgb({ l: v[0], a: v[1], b: v[2] });
+    case 'xyz':
+    case 'xyz-d65':
+      return xyzToRgb(v);
+    case 'xyz-d50':
+      return xyzD50ToRgb(v);
+    case 'hsl':
+      return hslToRgb({ h: normalizeHue(v[0]), s: v[1], l: v[2] });
+    case 'hwb':
+      return hwbToRgb({ h: v[0], w: v[1], b: v[2] });
+    case 'lch':
+      return lchToRgb({ l: v[0], c: v[1], h: normalizeHue(v[2]) });
+    case 'oklch':
+      return oklchToRgb({ l: v[0], c: v[1], h: normalizeHue(v[2]) });
+  }
+}
+
+/**
+ * Adjust two hue angles for the chosen hue interpolation method
+ */
+function fixupHues(h1: number, h2: number, method: HueInterpolation): [number, number] {
+  const diff = h2 - h1;
+  switch (method) {
+    case 'shorter':
+      if (diff > 180) h1 += 360;
+      else if (diff < -180) h2 += 360;
+      break;
+    case 'longer':
+      if (diff > 0 && diff < 180) h1 += 360;
+      else if (diff > -180 && diff <= 0) h2 += 360;
+      break;
+    case 'increasing':
+      if (diff < 0) h2 += 360;
+      break;
+    case 'decreasing':
+      if (diff > 0) h1 += 360;
+      break;
+  }
+  return [h1, h2];
+}
+
+/**
+ * Interpolate between two colors the way CSS Color 4 does
+ * Channels are premultiplied by alpha, except hue; an achromatic color has a
+ * powerless hue and takes the other color's, so grays do not swing through
+ * unrelated hues.
+ */
+export function interpolateColor(
+  from: RGB,
+  to: RGB,
+  t: number,
+  space: InterpolationSpace = 'oklab',
+  hue: HueInterpolation = 'shorter'
+): RGB {
+  const alphaFrom = from.a ?? 1;
+  const alphaTo = to.a ?? 1;
+  const alpha = alphaFrom + (alphaTo - alphaFrom) * t;
+  const a = toSpace(from, space);
+  const b = toSpace(to, space);
+  const hueChannel = HUE_CHANNEL[space];
+
+  if (hueChannel !== undefined) {
+    const achromatic = (rgb: RGB) => Math.max(rgb.r, rgb.g, rgb.b) - Math.min(rgb.r, rgb.g, rgb.b) < 0.5;
+    if (achromatic(from)) a[hueChannel] = b[hueChannel];
+    if (achromatic(to)) b[hueChannel] = a[hueChannel];
+    [a[hueChannel], b[hueChannel]] = fixupHues(a[hueChannel], b[hueChannel], hue);
+  }
+
+  const mixed = a.map((value, i) => {
+    if (i === hueChannel) return value + (b[i] - value) * t;
+    const premultiplied = value * alphaFrom + (b[i] * alphaTo - value * alphaFrom) * t;
+    return alpha === 0 ? 0 : premultiplied / alpha;
+  }) as Vec3;
+
+  const rgb = clampRgb(fromSpace(mixed, space));
+  if (alpha < 1) rgb.a = alpha;
+  return rgb;
+}
+
+/**
+ * Split a string on a separator outside parentheses, keeping each part's offset
+ */
+function splitTopLevel(text: string, separator: RegExp, offset: number = 0): Array<{ text: string; start: number }> {
+  const parts: Array<{ text: string; start: number }> = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (i === text.length || (depth === 0 && separator.test(char))) {
+      const part = text.slice(start, i);
+      const leading = part.length - part.trimStart().length;
+      if (part.trim()) parts.push({ text: part.trim(), start: offset + start + leading });
+      start = i + 1;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Parse a stop position as a 0-1 fraction; lengths cannot be resolved without a box
+ */
+function parsePosition(token: string): number | null {
+  if (token === '0') return 0;
+  const match = /^(-?\d*\.?\d+)%$/.exec(token);
+  return match ? parseFloat(match[1]) / 100 : null;
+}
+
+/**
+ * Parse the argument before the first stop: the gradient line or shape, and the interpolation method
+ * Follows the CSS Images 4 grammar, an angle or `to <side-or-corner>` for
+ * linear gradients and shape, size and `at <position>` for radial ones, each
+ * in either order with `in <colorspace> [<hue> hue]`. Returns null for
+ * anything else.
+ */
+function parseGradientConfig(config: string, type: GradientType): { space: InterpolationSpace | null; hue: HueInterpolation } | null {
+  const tokens = config.toLowerCase().split(/\s+/).filter(Boolean);
+
+  // The interpolation method leads or ends the argument
+  let space: InterpolationSpace | null = null;
+  let hue: HueInterpolation = 'shorter';
+  const methodAt = tokens.indexOf('in');
+  if (methodAt !== -1) {
+    const method = tokens.splice(methodAt);
+    const name = method[1] as InterpolationSpace;
+    if (!INTERPOLATION_SPACES.includes(name)) return null;
+
+    let length = 2;
+    if (method[3] === 'hue' && HUE_CHANNEL[name] !== undefined && ['shorter', 'longer', 'increasing', 'decreasing'].includes(method[2])) {
+      hue = method[2] as HueInterpolation;
+      length = 4;
+    }
+    if (methodAt === 0) {
+      tokens.push(...method.slice(length));
+    } else if (method.length !== length) {
+      return null;
+    }
+    space = name;
+  }
+  if (tokens.length === 0) {
+    return methodAt === -1 ? null : { space, hue };
+  }
+
+  if (type === 'linear') {
+    if (tokens.length === 1) {
+      return ANGLE.test(tokens[0]) ? { space, hue } : null;
+    }
+    // `to` and one side, or a horizontal and a vertical side for a corner
+    const sides = tokens.slice(1);
+    const horizontal = sides.filter((side) => side === 'left' || side === 'right').length;
+    const vertical = sides.filter((side) => side === 'top' || side === 'bottom').length;
+    return tokens[0] === 'to' && sides.length <= 2 && horizontal <= 1 && vertical <= 1 && horizontal + vertical === sides.length
+      ? { space, hue }
+      : null;
+  }
+
+  // Radial: shape and size in either order, then the center
+  const atIndex = tokens.indexOf('at');
+  const shapeTokens = atIndex === -1 ? tokens : tokens.slice(0, atIndex);
+  const position = atIndex === -1 ? [] : tokens.slice(atIndex + 1);
+  if (atIndex !== -1 && (position.length === 0 || position.length > 4)) return null;
+  if (!position.every((token) => POSITION_KEYWORDS.includes(token) || LENGTH.test(token) || PERCENTAGE.test(token))) return null;
+
+  const shapes = shapeTokens.filter((token) => token === 'circle' || token === 'ellipse');
+  const sizes = shapeTokens.filter((token) => token !== 'circle' && token !== 'ellipse');
+  if (shapes.length > 1) return null;
+  if (sizes.length === 0) return { space, hue };
+  if (sizes.length === 1 && RADIAL_EXTENTS.includes(sizes[0])) return { space, hue };
+  // A circle takes one length, an ellipse two lengths or percentages
+  const circle = shapes[0] === 'circle' || (shapes.length === 0 && sizes.length === 1);
+  if (circle) {
+    return sizes.length === 1 && LENGTH.test(sizes[0]) ? { space, hue } : null;
+  }
+  return sizes.length === 2 && sizes.every((size) => LENGTH.test(size) || PERCENTAGE.test(size)) ? { space, hue } : null;
+}
+
+/**
+ * Parse a CSS linear or radial gradient, repeating or not
+ * Stop positions must be percentages. Without an `in <space>` clause the
+ * gradient interpolates in Oklab, or in sRGB when every stop uses legacy
+ * color syntax (hex, named, rgb(), hsl() or hwb()), as browsers do.
+ * Returns null for anything that cannot be parsed.
+ */
+export function parseGradient(css: string): Gradient | null {
+  const value = css.trim().replace(/;$/, '');
+  const fn = /^(repeating-)?(linear|radial)-gradient\(([\s\S]*)\)$/i.exec(value);
+  if (!fn) return null;
+
+  const argsOffset = value.indexOf('(') + 1 + (css.length - css.trimStart().length);
+  const args = splitTopLevel(fn[3], /,/, argsOffset);
+  if (args.length === 0) return null;
+
+  let space: InterpolationSpace | null = null;
+  let hue: HueInterpolation = 'shorter';
+  const firstTokens = splitTopLevel(args[0].text, /\s/);
+  if (!parseColor(firstTokens[0]?.text ?? '')) {
+    const config = parseGradientConfig(args.shift()!.text, fn[2].toLowerCase() as GradientType);
+    if (!config) return null;
+    ({ space, hue } = config);
+  }
+
+  // Stops with optional positions, and transition hints between them
+  const colors: GradientColor[] = [];
+  const raw: Array<{ color: RGB; position: number | null; source: number }> = [];
+  const hints: Array<number | null> = [];
+  for (const arg of args) {
+    const tokens = splitTopLevel(arg.text, /\s/, arg.start);
+    const positions: number[] = [];
+    while (tokens.length > 1 && parsePosition(tokens[tokens.length - 1].text) !== null) {
+      positions.unshift(parsePosition(tokens.pop()!.text)!);
+    }
+
+    if (tokens.length === 1 && parsePosition(tokens[0].text) !== null) {
+      // A hint must sit between two stops
+      if (raw.length === 0 || hints.length === raw.length) return null;
+      hints.push(parsePosition(tokens[0].text));
+      continue;
+    }
+
+    const start = tokens[0].start;
+    const last = tokens[tokens.length - 1];
+    const end = last.start + last.text.length;
+    const text = css.slice(start, end);
+    const color = parseColor(text);
+    if (!color || positions.length > 2) return null;
+
+    if (hints.length < raw.length) hints.push(null);
+    colors.push({ start, end, text });
+    const source = colors.length - 1;
+    if (positions.length === 0) {
+      raw.push({ color, position: null, source });
+    } else {
+      positions.forEach((position, i) => {
+        if (i > 0) hints.push(null);
+        raw.push({ color, position, source });
+      });
+    }
+  }
+  if (raw.length < 2 || hints.length !== raw.length - 1) return null;
+
+  // Color stop fixup: ends default to 0% and 100%, positions never go backwards,
+  // and runs without positions are spread evenly between their neighbours
+  if (raw[0].position === null) raw[0].position = 0;
+  if (raw[raw.length - 1].position === null) raw[raw.length - 1].position = 1;
+  let highest = raw[0].position;
+  for (const stop of raw) {
+    if (stop.position !== null) {
+      stop.position = Math.max(stop.position, highest);
+      highest = stop.position;
+    }
+  }
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].position !== null) continue;
+    let next = i;
+    while (raw[next].position === null) next++;
+    const from = raw[i - 1].position!;
+    const to = raw[next].position!;
+    for (let j = i; j < next; j++) {
+      raw[j].position = from + ((to - from) * (j - i + 1)) / (next - i + 1);
+    }
+  }
+
+  if (!space) {
+    const legacy = colors.every((c) => !c.text.includes('(') || LEGACY_FUNCTIONS.test(c.text.toLowerCase()));
+    space = legacy ? 'srgb' : 'oklab';
+  }
+
+  return {
+    type: fn[2].toLowerCase() as GradientType,
+    repeating: fn[1] !== undefined,
+    space,
+    hue,
+    stops: raw.map((stop) => ({ color: stop.color, position: stop.position!, source: stop.source })),
+    hints,
+    colors,
+  };
+}
+
+/**
+ * Color of a gradient at a position along its line
+ * Before the first stop and after the last the end colors continue; a
+ * repeating gradient tiles its stops instead.
+ */
+export function getGradientColor(gradient: Gradient, position: number): RGB {
+  const { stops } = gradient;
+  const first = stops[0].position;
+  const last = stops[stops.length - 1].position;
+  let p = position;
+  if (gradient.repeating && last > first) {
+    p = first + ((((p - first) % (last - first)) + (last - first)) % (last - first));
+  }
+
+  if (p <= first) return { ...stops[0].color };
+  if (p >= last) return { ...stops[stops.length - 1].color };
+
+  // The last segment that starts at or before p, so hard stops switch at their position
+  let i = 0;
+  while (i < stops.length - 2 && stops[i + 1].position <= p) i++;
+  const from = stops[i];
+  const to = stops[i + 1];
+  if (to.position <= from.position) return { ...to.color };
+
+  let t = (p - from.position) / (to.position - from.position);
+  const hint = gradient.hints[i];
+  if (hint !== null && hint !== undefined) {
+    const h = (hint - from.position) / (to.position - from.position);
+    t = h <= 0 ? 1 : h >= 1 ? 0 : Math.pow(t, Math.log(0.5) / Math.log(h));
+  }
+  return interpolateColor(from.color, to.color, t, gradient.space, gradient.hue);
+}
+
+/**
+ * Sample a gradient densely along its line, including every stop position
+ */
+export function sampleGradient(gradient: Gradient, count: number = GRADIENT_SAMPLES): GradientSample[] {
+  const positions = new Set<number>();
+  for (let i = 0; i <= count; i++) positions.add(i / count);
+  for (const stop of gradient.stops) {
+    if (stop.position >= 0 && stop.position <= 1) positions.add(stop.position);
+  }
+
+  return [...positions]
+    .sort((a, b) => a - b)
+    .map((position) => ({ position, color: getGradientColor(gradient, position) }));
+}
+
+/**
+ * Measure text contrast across a gradient
+ * Each sample is placed over the layers beneath it (bottom first) and the
+ * worst case over an unknown backdrop is used, as for flat backgrounds.
+ */
+export function checkGradientContrast(
+  foreground: RGB,
+  gradient: Gradient,
+  layers: RGB[] = [],
+  threshold: number = WCAG_THRESHOLDS.normalTextAA
+): GradientContrast {
+  const samples = sampleGradient(gradient).map((sample) => {
+    const range = getContrastRange(foreground, [...layers, sample.color]);
+    return { ...sample, ratio: range.min, max: range.max };
+  });
+
+  const failing: GradientSpan[] = [];
+  for (const [i, sample] of samples.entries()) {
+    if (sample.ratio >= threshold) continue;
+    const current = failing[failing.length - 1];
+    const previous = samples[i - 1];
+    if (current && previous && previous.ratio < threshold) {
+      current.end = sample.position;
+    } else {
+      failing.push({ start: sample.position, end: sample.position });
+    }
+  }
+
+  const worst = samples.reduce((a, b) => (b.ratio < a.ratio ? b : a));
+  return {
+    min: worst.ratio,
+    max: Math.max(...samples.map((sample) => sample.max)),
+    worst: { position: worst.position, color: worst.color },
+    samples: samples.map(({ position, color, ratio }) => ({ position, color, ratio })),
+    failing,
+  };
+}
+
+/**
+ * Replace one color of a gradient, in both the parsed gradient and its CSS
+ */
+export function replaceGradientColor(css: string, gradient: Gradient, source: number, rgb: RGB): { css: string; gradient: Gradient } {
+  const color = gradient.colors[source];
+  const hex = rgbToHex(rgb).toUpperCase();
+  return {
+    css: `${css.slice(0, color.start)}${hex}${css.slice(color.end)}`,
+    gradient: {
+      ...gradient,
+      stops: gradient.stops.map((stop) => (stop.source === source ? { ...stop, color: { ...rgb } } : stop)),
+      colors: gradient.colors.map((c, i) => (i === source ? { ...c, text: hex } : c)),
+    },
+  };
+}
+
+/**
+ * Lightness search in both directions, keeping the candidate closest to the original
+ */
+function findClosest(rgb: RGB, passes: (candidate: RGB) => boolean): RGB | null {
+  const candidates = [
+    searchOklchLightness(rgb, passes, 'lighter'),
+    searchOklchLightness(rgb, passes, 'darker'),
+  ].filter((candidate): candidate is RGB => candidate !== null);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) => (getDeltaE2000(candidate, rgb) < getDeltaE2000(best, rgb) ? candidate : best));
+}
+
+/**
+ * Suggest fixes for text that fails somewhere on a gradient
+ * For each target, one suggestion moves the text color's OKLCH lightness
+ * until the whole gradient passes, and one moves the worst-case stop (the
+ * stop with the least contrast against the text) instead. The search samples
+ * the gradient coarsely, so each candidate is rechecked at full resolution and
+ * dropped if it misses the target; so is a stop change that cannot fix the
+ * gradient alone. Translucent stops are left alone.
+ * Ordered by CIEDE2000 distance from the original color.
+ */
+export function getGradientSuggestions(
+  foreground: RGB,
+  css: string,
+  gradient: Gradient,
+  layers: RGB[] = [],
+  targets: SuggestionTarget[] = ['aa', 'aaa']
+): GradientSuggestion[] {
+  const suggestions: GradientSuggestion[] = [];
+  const minimum = (fg: RGB, g: Gradient) => checkGradientContrast(fg, g, layers).min;
+  // Search predicates stop at the first failing sample
+  const passesAll = (fg: RGB, within: GradientSample[], ratio: number) =>
+    within.every((sample) => getContrastRange(fg, [...layers, sample.color]).min >= ratio);
+
+  // The gradient is fixed while the text color moves, so sample it once
+  const searchSamples = sampleGradient(gradient, SEARCH_SAMPLES);
+  const samples = sampleGradient(gradient);
+  const textMinimum = (fg: RGB) =>
+    samples.reduce((min, sample) => Math.min(min, getContrastRange(fg, [...layers, sample.color]).min), Infinity);
+  const currentMinimum = minimum(foreground, gradient);
+
+  const stopContrast = (source: number) => {
+    const stop = gradient.stops.find((s) => s.source === source)!;
+    return getContrastRange(foreground, [...layers, stop.color]).min;
+  };
+  const worstStop = gradient.colors
+    .map((_, source) => source)
+    .filter((source) => (gradient.stops.find((s) => s.source === source)!.color.a ?? 1) === 1)
+    .reduce<number | null>((worst, source) => (worst === null || stopContrast(source) < stopContrast(worst) ? source : worst), null);
+
+  for (const id of targets) {
+    const target = SUGGESTION_TARGETS.find((t) => t.id === id);
+    if (!target || id === 'apca') continue;
+    const ratio = id === 'aaa' ? WCAG_THRESHOLDS.normalTextAAA : id === 'ui' ? WCAG_THRESHOLDS.uiComponents : WCAG_THRESHOLDS.normalTextAA;
+    if (currentMinimum >= ratio) continue;
+
+    const opaqueForeground = { r: foreground.r, g: foreground.g, b: foreground.b };
+    const text = findClosest(opaqueForeground, (candidate) => passesAll(candidate, searchSamples, ratio));
+    const textMin = text ? textMinimum(text) : 0;
+    if (text && textMin >= ratio) {
+      suggestions.push({
+        target: id,
+        adjusted: 'foreground',
+        rgb: text,
+        hex: rgbToHex(text).toUpperCase(),
+        min: textMin,
+        deltaE: getDeltaE2000(text, opaqueForeground),
+      });
+    }
+
+    if (worstStop === null) continue;
+    const original = gradient.stops.find((s) => s.source === worstStop)!.color;
+    const withStop = (rgb: RGB) => replaceGradientColor(css, gradient, worstStop, rgb);
+    const stop = findClosest(original, (candidate) =>
+      passesAll(foreground, sampleGradient(withStop(candidate).gradient, SEARCH_SAMPLES), ratio)
+    );
+    const replaced = stop ? withStop(stop) : null;
+    const stopMin = replaced ? minimum(foreground, replaced.gradient) : 0;
+    if (stop && replaced && stopMin >= ratio) {
+      suggestions.push({
+        target: id,
+        adjusted: 'stop',
+        rgb: stop,
+        hex: rgbToHex(stop).toUpperCase(),
+        css: replaced.css,
+        stop: worstStop,
+        min: stopMin,
+        deltaE: getDeltaE2000(stop, original),
+      });
+    }
+  }
+
+  return suggestions.sort((a, b) => a.deltaE - b.deltaE);
+}
@@ -0,0 +1,159 @@
+/**
+ * Color Harmony Generator
+ * Seeds a named palette from one base color with hue relationships worked out in OKLCH
+ */
+
+import { hexToRgb, rgbToHex, getContrastRatio, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { rgbToOklch, gamutMapOklch, normalizeHue, searchOklchLightness } from './color-space';
+import type { OKLCH } from './color-space';
+
+export type HarmonyType = 'complementary' | 'split-complementary' | 'analogous' | 'triadic' | 'tetradic' | 'monochromatic';
+
+export type HarmonyScheme = 'light' | 'dark';
+
+export interface HarmonyInfo {
+  id: HarmonyType;
+  name: string;
+  description: string;
+}
+
+export type HarmonyRole = 'accent' | 'surface' | 'text';
+
+export interface HarmonyColor {
+  name: string;
+  hex: string;
+  role: HarmonyRole;
+}
+
+export interface Harmony {
+  type: HarmonyType;
+  colors: HarmonyColor[]; // Accents first, then surfaces and the text color
+  textContrast: number; // Lowest ratio of the text color against any surface
+}
+
+export const HARMONY_TYPES: HarmonyInfo[] = [
+  { id: 'complementary', name: 'Complementary', description: 'Base and the hue opposite it' },
+  { id: 'split-complementary', name: 'Split Complementary', description: 'Base and the two hues beside its opposite' },
+  { id: 'analogous', name: 'Analogous', description: 'Base and its neighbours 30° either side' },
+  { id: 'triadic', name: 'Triadic', description: 'Three hues spaced 120° apart' },
+  { id: 'tetradic', name: 'Tetradic', description: 'Four hues spaced 90° apart' },
+  { id: 'monochromatic', name: 'Monochromatic', description: 'The base hue at several lightnesses' },
+];
+
+// Hue offsets from the base, in degrees, with the names the accents get
+const HUE_OFFSETS: Record<Exclude<HarmonyType, 'monochromatic'>, Array<[number, string]>> = {
+  complementary: [[0, 'Primary'], [180, 'Complement']],
+  'split-complementary': [[0, 'Primary'], [150, 'Secondary'], [210, 'Tertiary']],
+  analogous: [[0, 'Primary'], [-30, 'Secondary'], [30, 'Tertiary']],
+  triadic: [[0, 'Primary'], [120, 'Secondary'], [240, 'Tertiary']],
+  tetradic: [[0, 'Primary'], [90, 'Secondary'], [180, 'Tertiary'], [270, 'Quaternary']],
+};
+
+// Lightness offsets from the base for monochromatic sets
+const MONOCHROMATIC_STEPS: Array<[number, string]> = [
+  [0.24, 'Primary Lighter'],
+  [0.12, 'Primary Light'],
+  [0, 'Primary'],
+  [-0.12, 'Primary Dark'],
+  [-0.24, 'Primary Darker'],
+];
+const MONOCHROMATIC_RANGE = { min: 0.2, max: 0.95 };
+
+// A gray has no hue to rotate, so its accents get this chroma, at a lightness
+// within ACCENT_RANGE where that chroma can show
+const ACHROMATIC_CHROMA = 0.02;
+const ACCENT_CHROMA = 0.12;
+const ACCENT_RANGE = { min: 0.45, max: 0.85 };
+
+// Surfaces and text in OKLCH lightness, tinted slightly towards the base hue
+const SCHEMES: Record<HarmonyScheme, { background: number; surface: number; subtle: number; text: number }> = {
+  light: { background: 0.985, surface: 0.95, subtle: 0.93, text: 0.25 },
+  dark: { background: 0.16, surface: 0.21, subtle: 0.25, text: 0.93 },
+};
+const NEUTRAL_CHROMA = 0.008;
+const TEXT_CHROMA = 0.015;
+const SUBTLE_CHROMA = 0.04;
+
+/**
+ * Convert an OKLCH color to an in-gamut hex string
+ */
+function toHex(lch: OKLCH): string {
+  const rgb = gamutMapOklch(lch);
+  return rgbToHex({ r: Math.round(rgb.r), g: Math.round(rgb.g), b: Math.round(rgb.b) }).toUpperCase();
+}
+
+/**
+ * Accent colors of a harmony
+ * Hues rotate at the base's lightness and chroma, so every accent carries the
+ * same visual weight; the base itself is kept exactly. A gray base gets
+ * colored accents instead, and a monochromatic step that cannot go lighter or
+ * darker than the base is left out, so no two accents are the same color.
+ */
+function getAccents(base: RGB, type: HarmonyType): HarmonyColor[] {
+  const lch = rgbToOklch(base);
+  const baseHex = rgbToHex(base).toUpperCase();
+
+  let accents: HarmonyColor[];
+  if (type === 'monochromatic') {
+    accents = MONOCHROMATIC_STEPS.flatMap(([offset, name]) => {
+      if (offset === 0) return [{ name, hex: baseHex, role: 'accent' as const }];
+      const l = Math.min(MONOCHROMATIC_RANGE.max, Math.max(MONOCHROMATIC_RANGE.min, lch.l + offset));
+      return (l - lch.l) * offset > 0 ? [{ name, hex: toHex({ ...lch, l }), role: 'accent' as const }] : [];
+    });
+  } else {
+    const rotated =
+      lch.c < ACHROMATIC_CHROMA
+        ? { ...lch, l: Math.min(ACCENT_RANGE.max, Math.max(ACCENT_RANGE.min, lch.l)), c: ACCENT_CHROMA }
+        : lch;
+    accents = HUE_OFFSETS[type].map(([offset, name]) => ({
+      name,
+      hex: offset === 0 ? baseHex : toHex({ ...rotated, h: normalizeHue(lch.h + offset) }),
+      role: 'accent' as const,
+    }));
+  }
+
+  return accents.filter((accent, i) => accents.findIndex((other) => other.hex === accent.hex) === i);
+}
+
+/**
+ * Generate a harmony from a base color
+ * The accents come with a background, a surface and a subtle surface tinted
+ * with the base hue, plus a near-neutral text color. The text starts at a
+ * comfortable lightness and is pushed further from the surfaces until it
+ * passes AA against every one of them.
+ */
+export function generateHarmony(base: string, type: HarmonyType, scheme: HarmonyScheme = 'light'): Harmony | null {
+  const rgb = hexToRgb(base);
+  if (!rgb) return null;
+
+  const opaque = { r: rgb.r, g: rgb.g, b: rgb.b };
+  const { h } = rgbToOklch(opaque);
+  const levels = SCHEMES[scheme];
+  const surfaces: HarmonyColor[] = [
+    { name: 'Background', hex: toHex({ l: levels.background, c: NEUTRAL_CHROMA, h }), role: 'surface' },
+    { name: 'Surface', hex: toHex({ l: levels.surface, c: NEUTRAL_CHROMA, h }), role: 'surface' },
+    { name: 'Surface Subtle', hex: toHex({ l: levels.subtle, c: SUBTLE_CHROMA, h }), role: 'surface' },
+  ];
+  const surfaceRgbs = surfaces.map((surface) => hexToRgb(surface.hex)!);
+
+  const lowestContrast = (candidate: RGB) =>
+    Math.min(...surfaceRgbs.map((surface) => getContrastRatio(candidate, surface)));
+  const passes = (candidate: RGB) => lowestContrast(candidate) >= WCAG_THRESHOLDS.normalTextAA;
+
+  let text = hexToRgb(toHex({ l: levels.text, c: TEXT_CHROMA, h }))!;
+  if (!passes(text)) {
+    text = searchOklchLightness(text, passes, scheme === 'light' ? 'darker' : 'lighter')
+      ?? (scheme === 'light' ? { r: 0, g: 0, b: 0 } : { r: 255, g: 255, b: 255 });
+  }
+
+  return {
+    type,
+    colors: [
+      ...getAccents(opaque, type),
+      ...surfaces,
+      { name: 'Text', hex: rgbToHex(text).toUpperCase(), role: 'text' },
+    ],
+    textContrast: lowestContrast(text),
+  };
+}
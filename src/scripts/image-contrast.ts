@@ -0,0 +1,281 @@
+/**
+ * Image Contrast Analysis
+ * Samples screenshot pixels, reduces regions to dominant colors and finds text-like regions by edge density
+ */
+
+import { getContrastRatio, checkWCAGCompliance } from './contrast';
+import type { RGB, ContrastResult } from './contrast';
+import { getDeltaE2000 } from './color-space';
+
+/**
+ * RGBA pixels, laid out like a canvas ImageData
+ */
+export interface PixelImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DominantColor {
+  rgb: RGB;
+  share: number; // Fraction of the region's pixels, 0-1
+}
+
+export interface RegionContrast {
+  region: ImageRegion;
+  colors: DominantColor[];
+  foreground: RGB;
+  background: RGB;
+  ratio: number;
+  compliance: ContrastResult;
+}
+
+export interface TextRegion extends RegionContrast {
+  density: number; // Share of edge pixels, 0-1
+}
+
+export interface TextRegionOptions {
+  cellSize?: number; // Grid cell size in pixels
+  edgeThreshold?: number; // Luma step (0-255) between neighbours counted as an edge
+  minDensity?: number; // Cells with fewer edges are flat background
+  maxDensity?: number; // Cells with more edges are noise or photos
+  minCoverage?: number; // Share the foreground and background must cover together
+}
+
+const DEFAULT_TEXT_OPTIONS: Required<TextRegionOptions> = {
+  cellSize: 12,
+  edgeThreshold: 48,
+  minDensity: 0.06,
+  maxDensity: 0.5,
+  minCoverage: 0.6,
+};
+
+// Histogram bins closer than this (CIEDE2000) are merged into one color
+const MERGE_DELTA_E = 8;
+
+// Only the most populated bins are clustered; the rest are anti-aliasing and noise
+const MAX_BINS = 256;
+
+// A color must cover this share of a region to count as its foreground
+const MIN_FOREGROUND_SHARE = 0.02;
+
+/**
+ * Clamp a region to the image and round it to whole pixels
+ */
+export function clampRegion(image: PixelImage, region: ImageRegion): ImageRegion {
+  const x = Math.max(0, Math.min(image.width - 1, Math.floor(Math.min(region.x, region.x + region.width))));
+  const y = Math.max(0, Math.min(image.height - 1, Math.floor(Math.min(region.y, region.y + region.height))));
+  const right = Math.max(x + 1, Math.min(image.width, Math.ceil(Math.max(region.x, region.x + region.width))));
+  const bottom = Math.max(y + 1, Math.min(image.height, Math.ceil(Math.max(region.y, region.y + region.height))));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Read one pixel as RGB
+ */
+export function samplePixel(image: PixelImage, x: number, y: number): RGB {
+  const { x: px, y: py } = clampRegion(image, { x, y, width: 1, height: 1 });
+  const i = (py * image.width + px) * 4;
+  return { r: image.data[i], g: image.data[i + 1], b: image.data[i + 2] };
+}
+
+/**
+ * Reduce a region to its dominant colors, most common first
+ * Pixels are binned at 4 bits per channel, then bins that look alike are
+ * merged so anti-aliased edges fold into the colors they blend. Transparent
+ * pixels are ignored.
+ */
+export function getDominantColors(image: PixelImage, region: ImageRegion, maxColors: number = 4): DominantColor[] {
+  const { x, y, width, height } = clampRegion(image, region);
+  const counts = new Uint32Array(4096);
+  const sums = new Float64Array(4096 * 3);
+  let total = 0;
+
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      const i = (row * image.width + col) * 4;
+      if (image.data[i + 3] === 0) continue;
+
+      const r = image.data[i];
+      const g = image.data[i + 1];
+      const b = image.data[i + 2];
+      const bin = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      counts[bin]++;
+      sums[bin * 3] += r;
+      sums[bin * 3 + 1] += g;
+      sums[bin * 3 + 2] += b;
+      total++;
+    }
+  }
+
+  if (total === 0) {
+    return [];
+  }
+
+  const bins = Array.from(counts.keys())
+    .filter((bin) => counts[bin] > 0)
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, MAX_BINS);
+
+  const clusters: Array<{ rgb: RGB; count: number }> = [];
+  for (const bin of bins) {
+    const count = counts[bin];
+    const rgb = { r: sums[bin * 3] / count, g: sums[bin * 3 + 1] / count, b: sums[bin * 3 + 2] / count };
+    const cluster = clusters.find((c) => getDeltaE2000(c.rgb, rgb) < MERGE_DELTA_E);
+
+    if (cluster) {
+      const merged = cluster.count + count;
+      cluster.rgb = {
+        r: (cluster.rgb.r * cluster.count + rgb.r * count) / merged,
+        g: (cluster.rgb.g * cluster.count + rgb.g * count) / merged,
+        b: (cluster.rgb.b * cluster.count + rgb.b * count) / merged,
+      };
+      cluster.count = merged;
+    } else {
+      clusters.push({ rgb, count });
+    }
+  }
+
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors)
+    .map((cluster) => ({
+      rgb: { r: Math.round(cluster.rgb.r), g: Math.round(cluster.rgb.g), b: Math.round(cluster.rgb.b) },
+      share: cluster.count / total,
+    }));
+}
+
+/**
+ * Estimate the foreground and background of a region and check their contrast
+ * The most common color is the background; the foreground is the remaining
+ * dominant color with the most contrast against it. Returns null when the
+ * region holds a single color.
+ */
+export function analyzeRegion(image: PixelImage, region: ImageRegion): RegionContrast | null {
+  const colors = getDominantColors(image, region);
+  const [background, ...rest] = colors;
+  const candidates = rest.filter((c) => c.share >= MIN_FOREGROUND_SHARE);
+  if (!background || candidates.length === 0) {
+    return null;
+  }
+
+  const foreground = candidates.reduce((best, c) =>
+    getContrastRatio(c.rgb, background.rgb) > getContrastRatio(best.rgb, background.rgb) ? c : best
+  );
+  const ratio = getContrastRatio(foreground.rgb, background.rgb);
+
+  return {
+    region: clampRegion(image, region),
+    colors,
+    foreground: foreground.rgb,
+    background: background.rgb,
+    ratio,
+    compliance: checkWCAGCompliance(ratio),
+  };
+}
+
+/**
+ * Find text-like regions and check the contrast of each
+ * The image is split into cells and a cell counts as text when its share of
+ * luma edges falls between the density bounds; neighbouring text cells are
+ * joined into regions. Regions whose foreground and background cover less than
+ * `minCoverage` are dropped as photos or gradients. Results are sorted with the
+ * lowest contrast first.
+ */
+export function findTextRegions(image: PixelImage, options: TextRegionOptions = {}): TextRegion[] {
+  const { cellSize, edgeThreshold, minDensity, maxDensity, minCoverage } = { ...DEFAULT_TEXT_OPTIONS, ...options };
+  const { width, height, data } = image;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // Edge density per cell from the horizontal and vertical luma steps
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const edges = new Uint32Array(cols * rows);
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const step = Math.abs(luma[i + 1] - luma[i]) + Math.abs(luma[i + width] - luma[i]);
+      if (step > edgeThreshold) {
+        edges[Math.floor(y / cellSize) * cols + Math.floor(x / cellSize)]++;
+      }
+    }
+  }
+
+  const density = (cell: number) => {
+    const cellWidth = Math.min(cellSize, width - (cell % cols) * cellSize);
+    const cellHeight = Math.min(cellSize, height - Math.floor(cell / cols) * cellSize);
+    return edges[cell] / (cellWidth * cellHeight);
+  };
+  const isText = Array.from({ length: cols * rows }, (_, cell) => {
+    const d = density(cell);
+    return d >= minDensity && d <= maxDensity;
+  });
+
+  // Join neighbouring text cells, diagonals included
+  const visited = new Uint8Array(cols * rows);
+  const regions: TextRegion[] = [];
+  for (let start = 0; start < isText.length; start++) {
+    if (!isText[start] || visited[start]) continue;
+
+    const stack = [start];
+    visited[start] = 1;
+    let minCol = cols;
+    let maxCol = 0;
+    let minRow = rows;
+    let maxRow = 0;
+    let edgeTotal = 0;
+    let cellTotal = 0;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      edgeTotal += density(cell);
+      cellTotal++;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          const next = r * cols + c;
+          if (c < 0 || r < 0 || c >= cols || r >= rows || visited[next] || !isText[next]) continue;
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    const region = clampRegion(image, {
+      x: minCol * cellSize,
+      y: minRow * cellSize,
+      width: (maxCol - minCol + 1) * cellSize,
+      height: (maxRow - minRow + 1) * cellSize,
+    });
+    const contrast = analyzeRegion(image, region);
+    if (!contrast) continue;
+
+    const coverage = contrast.colors
+      .filter((c) => c.rgb === contrast.foreground || c.rgb === contrast.background)
+      .reduce((sum, c) => sum + c.share, 0);
+    if (coverage < minCoverage) continue;
+
+    regions.push({ ...contrast, density: edgeTotal / cellTotal });
+  }
+
+  return regions.sort((a, b) => a.ratio - b.ratio);
+}
@@ -0,0 +1,1160 @@
+/**
+ * Palette Import Utilities
+ * Reads palettes back from the CSS, SCSS, Tailwind, Design Tokens, Tokens Studio,
+ * Figma Variables, JSON, GIMP palette and Adobe Swatch Exchange exports
+ */
+
+import { rgbToHex } from './contrast';
+import type { RGB } from './contrast';
+import { parseColor } from './color-parser';
+import { formatName, generateId, getColorKey, getTokenPath, resolveAliases, COLOR_MODES, PAIRING_REQUIREMENTS } from './palette';
+import type { PaletteColor, PaletteColorAlias, PalettePairing, PairingRequirement, ColorMode } from './palette';
+import { SCALE_STEPS, generateTonalScale } from './scales';
+import { isTypography } from './typography';
+import { parseWideGamutColor, isWideGamutInGamut } from './wide-gamut';
+import type { ScaleStep } from './scales';
+
+export type ImportFormat = 'css' | 'scss' | 'tailwind' | 'tokens' | 'tokens-studio' | 'figma' | 'json' | 'gpl' | 'ase';
+
+export interface ImportFormatInfo {
+  id: ImportFormat;
+  name: string;
+}
+
+export const IMPORT_FORMATS: ImportFormatInfo[] = [
+  { id: 'css', name: 'CSS' },
+  { id: 'scss', name: 'SCSS' },
+  { id: 'tailwind', name: 'Tailwind' },
+  { id: 'tokens', name: 'Design Tokens' },
+  { id: 'tokens-studio', name: 'Tokens Studio' },
+  { id: 'figma', name: 'Figma Variables' },
+  { id: 'json', name: 'JSON' },
+  { id: 'gpl', name: 'GIMP Palette' },
+  { id: 'ase', name: 'Adobe Swatch Exchange' },
+];
+
+export interface ImportIssue {
+  line?: number; // 1-based, omitted for JSON entries
+  text: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  colors: PaletteColor[];
+  pairings: PalettePairing[];
+  skipped: ImportIssue[];
+}
+
+/**
+ * A named color value found in the source, before it becomes a palette color
+ */
+interface ImportEntry {
+  key: string; // Name as written in the source
+  group?: string; // Set when the entry is one step of a nested group
+  name?: string; // Exact display name when the source records one
+  value: string;
+  modes?: Partial<Record<Exclude<ColorMode, 'light'>, string>>; // Dark and high contrast values
+  path?: string; // Token path, for formats with aliases
+  alias?: string; // Token path the value referenced
+  tokenGroup?: string; // Token groups the color sits in, dot separated
+  line?: number;
+}
+
+/**
+ * A token read from a DTCG or Tokens Studio tree, before aliases are followed
+ */
+interface TokenNode {
+  value: unknown;
+  type?: string;
+  description?: string;
+  modes?: Record<string, unknown>;
+}
+
+/**
+ * Property names of a token tree: DTCG prefixes them with `$`, Tokens Studio does not
+ */
+interface TokenKeys {
+  value: string;
+  type: string;
+  description: string;
+}
+
+const DTCG_KEYS: TokenKeys = { value: '$value', type: '$type', description: '$description' };
+const TOKENS_STUDIO_KEYS: TokenKeys = { value: 'value', type: 'type', description: 'description' };
+
+// Alias chains longer than this are treated as broken
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Guess the format of pasted or dropped palette source
+ */
+export function detectImportFormat(source: string): ImportFormat {
+  const text = source.trim();
+
+  if (text.startsWith('GIMP Palette')) {
+    return 'gpl';
+  }
+  if (source.startsWith('ASEF')) {
+    return 'ase';
+  }
+
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      const flat = JSON.stringify(parsed);
+      if (flat.includes('"variableCollections"')) {
+        return 'figma';
+      }
+      if (flat.includes('"$value"')) {
+        return 'tokens';
+      }
+      if (parsed.$themes || parsed.$metadata || /"value":.+?"type":/.test(flat)) {
+        return 'tokens-studio';
+      }
+      return 'json';
+    } catch {
+      return 'tailwind';
+    }
+  }
+
+  if (/module\.exports|export\s+default|\bcolors\s*:\s*\{/.test(text)) {
+    return 'tailwind';
+  }
+  if (/^\s*\$[\w-]+\s*:/m.test(text)) {
+    return 'scss';
+  }
+  return 'css';
+}
+
+/**
+ * Turn a source key such as `brand-blue` or `brand_blue` into a display name
+ * The exporters slugify names, so the title-cased words export to the same key.
+ */
+function keyToName(key: string): string {
+  return key
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Split a flat key like `brand-500` into a group and scale step
+ */
+function splitStepKey(key: string): { group: string; step: string } | null {
+  const match = /^(.+)[-_](\d+)$/.exec(key);
+  if (!match || !SCALE_STEPS.includes(Number(match[2]) as ScaleStep)) {
+    return null;
+  }
+  return { group: match[1], step: match[2] };
+}
+
+/**
+ * Strip surrounding quotes from a key or value
+ */
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Find the mode a CSS selector or media query applies to
+ */
+function readCSSMode(text: string): Exclude<ColorMode, 'light'> | undefined {
+  if (/prefers-color-scheme\s*:\s*dark|\.dark\b|\[data-theme=["']?dark/.test(text)) {
+    return 'dark';
+  }
+  if (/prefers-contrast\s*:\s*more|\.high-contrast\b|\[data-theme=["']?high-contrast/.test(text)) {
+    return 'highContrast';
+  }
+  return undefined;
+}
+
+/**
+ * Read `--name: value;` custom properties from a CSS block
+ * Properties inside dark or high contrast media queries and classes become
+ * that mode's value for the light property of the same name. A light property
+ * declared again replaces its earlier value, as in the cascade, so wide-gamut
+ * values in an `@supports` block win over their sRGB fallbacks.
+ */
+function readCSS(source: string, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  const declared = new Map<string, string>();
+  const blocks: Array<Exclude<ColorMode, 'light'> | undefined> = [];
+
+  source.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.replace(/\/\*.*?\*\//g, '').trim();
+    if (line === '}') {
+      blocks.pop();
+      return;
+    }
+    if (line.endsWith('{')) {
+      blocks.push(readCSSMode(line) ?? blocks[blocks.length - 1]);
+      return;
+    }
+    if (!line || line.startsWith('/*') || line.startsWith('*')) {
+      return;
+    }
+    const mode = readCSSMode(line.split('{')[0]) ?? blocks[blocks.length - 1];
+
+    for (const declaration of line.split(';').map((d) => d.trim()).filter(Boolean)) {
+      const match = /^(?:[^{]*\{\s*)?--([\w-]+)\s*:\s*(.+?)\s*}?$/.exec(declaration);
+      if (!match) {
+        if (declaration !== '}') {
+          skipped.push({ line: index + 1, text: declaration, reason: 'Not a custom property' });
+        }
+        continue;
+      }
+
+      const [, property, rawValue] = match;
+      const reference = /^var\(\s*--([\w-]+)\s*(?:,\s*(.+))?\)$/.exec(rawValue);
+      const value = reference ? (declared.get(reference[1]) ?? reference[2] ?? rawValue) : rawValue;
+      const key = property.replace(/^color-/, '');
+
+      if (mode) {
+        const entry = entries.find((e) => e.key === key);
+        if (entry) {
+          entry.modes = { ...entry.modes, [mode]: value };
+        } else {
+          skipped.push({ line: index + 1, text: declaration, reason: 'No light value for this mode override' });
+        }
+        continue;
+      }
+      declared.set(property, value);
+
+      const existing = entries.find((e) => e.key === key);
+      if (existing) {
+        existing.value = value;
+        continue;
+      }
+      const step = splitStepKey(key);
+      entries.push({ key, group: step?.group, value, line: index + 1 });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Read `$name: value;` variables and `(key: value)` maps from SCSS
+ * Map entries that repeat a variable already read are ignored.
+ */
+function readSCSS(source: string, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  const mapEntries: ImportEntry[] = [];
+  const declared = new Map<string, string>();
+  const maps: string[] = [];
+
+  source.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line || line.startsWith('/*') || line.startsWith('*')) {
+      return;
+    }
+
+    // Closing a map
+    if (/^\)\s*[,;]?$/.test(line)) {
+      maps.pop();
+      return;
+    }
+
+    // Opening a map, either as a variable or as a nested key
+    const mapOpen = /^(?:\$([\w-]+)|(['"]?)([\w-]+)\2)\s*:\s*\($/.exec(line);
+    if (mapOpen) {
+      maps.push(mapOpen[1] ?? mapOpen[3]);
+      return;
+    }
+
+    const variable = /^\$([\w-]+)\s*:\s*(.+?)\s*(?:!default)?\s*;$/.exec(line);
+    if (variable && maps.length === 0) {
+      const [, name, rawValue] = variable;
+      const reference = /^\$([\w-]+)$/.exec(rawValue);
+      const value = reference ? (declared.get(reference[1]) ?? rawValue) : rawValue;
+      declared.set(name, value);
+
+      const key = name.replace(/^color-/, '');
+      const step = splitStepKey(key);
+      entries.push({ key, group: step?.group, value, line: index + 1 });
+      return;
+    }
+
+    const mapEntry = /^(['"]?)([\w-]+)\1\s*:\s*(.+?)\s*,?$/.exec(line);
+    if (mapEntry && maps.length > 0) {
+      const [, , mapKey, rawValue] = mapEntry;
+      const reference = /^\$([\w-]+)$/.exec(rawValue);
+      const value = reference ? (declared.get(reference[1]) ?? rawValue) : rawValue;
+      const isStep = SCALE_STEPS.includes(Number(mapKey) as ScaleStep);
+
+      // A nested map, or a top-level map of steps, is a group named after its map
+      if (isStep && (maps.length > 1 || maps[0] !== 'colors')) {
+        const group = maps[maps.length - 1];
+        mapEntries.push({ key: `${group}-${mapKey}`, group, value, line: index + 1 });
+      } else {
+        const step = splitStepKey(mapKey);
+        mapEntries.push({ key: mapKey, group: step?.group, value, line: index + 1 });
+      }
+      return;
+    }
+
+    skipped.push({ line: index + 1, text: line, reason: 'Not a variable or map entry' });
+  });
+
+  const seen = new Set(entries.map((e) => e.key));
+  return [...entries, ...mapEntries.filter((e) => !seen.has(e.key))];
+}
+
+/**
+ * Read the `colors` object from a Tailwind config
+ * Only the object literal is scanned, so the config does not need to be valid JSON.
+ * Nested objects become groups; values that are not color strings are reported.
+ */
+function readTailwind(source: string, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  const colorsKey = /\bcolors\s*:\s*\{/.exec(source);
+  let pos = colorsKey ? colorsKey.index + colorsKey[0].length : source.indexOf('{') + 1;
+  if (pos === 0) {
+    return entries;
+  }
+
+  const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+
+  const skipSpace = () => {
+    while (pos < source.length) {
+      if (/[\s,]/.test(source[pos])) {
+        pos++;
+      } else if (source.startsWith('//', pos)) {
+        const end = source.indexOf('\n', pos);
+        pos = end === -1 ? source.length : end;
+      } else if (source.startsWith('/*', pos)) {
+        const end = source.indexOf('*/', pos);
+        pos = end === -1 ? source.length : end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  // Read up to the next comma or closing brace outside of quotes and brackets
+  const readValue = (): string => {
+    const start = pos;
+    let depth = 0;
+    let quote = '';
+    while (pos < source.length) {
+      const char = source[pos];
+      if (quote) {
+        if (char === '\\') pos++;
+        else if (char === quote) quote = '';
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        if (depth === 0) break;
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        break;
+      }
+      pos++;
+    }
+    return source.slice(start, pos).trim();
+  };
+
+  const readObject = (groups: string[]) => {
+    while (pos < source.length) {
+      skipSpace();
+      if (source[pos] === '}') {
+        pos++;
+        return;
+      }
+
+      const start = pos;
+      const key = /^(?:(['"])([^'"]+)\1|([\w$-]+))\s*:\s*/.exec(source.slice(pos));
+      if (!key) {
+        const text = readValue();
+        skipped.push({ line: lineAt(start), text, reason: 'Not a color entry' });
+        if (!text) pos++;
+        continue;
+      }
+
+      pos += key[0].length;
+      const name = key[2] ?? key[3];
+      if (source[pos] === '{') {
+        pos++;
+        readObject([...groups, name]);
+        continue;
+      }
+
+      const value = unquote(readValue());
+      const group = groups.length > 0 ? groups.join('-') : undefined;
+      if (!group) {
+        const step = splitStepKey(name);
+        entries.push({ key: name, group: step?.group, value, line: lineAt(start) });
+      } else if (name === 'DEFAULT') {
+        // Tailwind uses DEFAULT for the bare group name
+        entries.push({ key: group, value, line: lineAt(start) });
+      } else {
+        entries.push({ key: `${group}-${name}`, group, value, line: lineAt(start) });
+      }
+    }
+  };
+
+  readObject([]);
+  return entries;
+}
+
+/**
+ * Collect the tokens of a DTCG or Tokens Studio tree by dot-separated path
+ * Group types are inherited by the tokens inside them.
+ */
+function collectTokens(data: unknown, keys: TokenKeys): Map<string, TokenNode> {
+  const tokens = new Map<string, TokenNode>();
+
+  const collect = (node: unknown, path: string[], inheritedType?: string) => {
+    if (!node || typeof node !== 'object') return;
+    const record = node as Record<string, unknown>;
+    const type = typeof record[keys.type] === 'string' ? (record[keys.type] as string) : inheritedType;
+
+    if (keys.value in record && (keys === DTCG_KEYS || typeof record[keys.type] === 'string')) {
+      // Files exported before the key was namespaced use `mode`
+      const extensions = (record.$extensions ?? {}) as Record<string, unknown>;
+      const modes = extensions['com.huepass.modes'] ?? extensions.mode;
+      tokens.set(path.join('.'), {
+        value: record[keys.value],
+        type,
+        description: typeof record[keys.description] === 'string' ? (record[keys.description] as string) : undefined,
+        modes: modes && typeof modes === 'object' ? (modes as Record<string, unknown>) : undefined,
+      });
+      return;
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      if (!key.startsWith('$')) {
+        collect(child, [...path, key], type);
+      }
+    }
+  };
+  collect(data, []);
+
+  return tokens;
+}
+
+/**
+ * Turn a token value into a CSS color string
+ * Strings pass through; DTCG 2025 color objects are written as the CSS
+ * function for their color space, falling back to their hex when the space
+ * is not one CSS parsing supports.
+ */
+function readTokenColor(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const color = value as { colorSpace?: unknown; components?: unknown; alpha?: unknown; hex?: unknown };
+  const hex = typeof color.hex === 'string' ? color.hex : null;
+  if (typeof color.colorSpace !== 'string' || !Array.isArray(color.components) || color.components.length !== 3) {
+    return hex;
+  }
+
+  const [c1, c2, c3] = color.components.map((c) => (typeof c === 'number' ? c : 0));
+  const alpha = typeof color.alpha === 'number' && color.alpha < 1 ? ` / ${color.alpha}` : '';
+  switch (color.colorSpace) {
+    case 'srgb':
+    case 'srgb-linear':
+    case 'display-p3':
+    case 'rec2020':
+    case 'xyz-d65':
+    case 'xyz-d50':
+      return `color(${color.colorSpace} ${c1} ${c2} ${c3}${alpha})`;
+    case 'hsl':
+    case 'hwb':
+      return `${color.colorSpace}(${c1} ${c2}% ${c3}%${alpha})`;
+    case 'lab':
+    case 'lch':
+    case 'oklab':
+    case 'oklch':
+      return `${color.colorSpace}(${c1} ${c2} ${c3}${alpha})`;
+    default:
+      return hex;
+  }
+}
+
+/**
+ * Follow `{group.token}` aliases to a value, returning the first path referenced
+ */
+function resolveToken(tokens: Map<string, TokenNode>, value: unknown): { value: unknown; alias?: string } {
+  const first = typeof value === 'string' ? /^\{(.+)\}$/.exec(value)?.[1] : undefined;
+  let resolved = value;
+  for (let depth = 0; depth <= MAX_ALIAS_DEPTH; depth++) {
+    const alias = typeof resolved === 'string' ? /^\{(.+)\}$/.exec(resolved) : null;
+    if (!alias) {
+      return { value: resolved, alias: first };
+    }
+    resolved = tokens.get(alias[1])?.value;
+  }
+  return { value: undefined, alias: first };
+}
+
+/**
+ * Turn collected tokens into entries
+ * Mode values come from each token's `$extensions['com.huepass.modes']` (or the
+ * older `$extensions.mode`), or from override trees such as Tokens Studio's
+ * dark set; overrides resolve their aliases against the base tokens.
+ */
+function readTokenEntries(
+  tokens: Map<string, TokenNode>,
+  skipped: ImportIssue[],
+  overrides: Partial<Record<Exclude<ColorMode, 'light'>, Map<string, TokenNode>>> = {}
+): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+
+  for (const [path, token] of tokens) {
+    if (token.type && token.type !== 'color') continue;
+
+    const { value: resolved, alias } = resolveToken(tokens, token.value);
+    const value = readTokenColor(resolved);
+    if (value === null) {
+      skipped.push({ text: path, reason: 'Token value is not a color' });
+      continue;
+    }
+
+    const segments = path.split('.');
+    // The exporters nest everything under a top-level `color` group
+    if ((segments[0] === 'color' || segments[0] === 'colors') && segments.length > 1) {
+      segments.shift();
+    }
+
+    const last = segments[segments.length - 1];
+    const isStep = segments.length > 1 && SCALE_STEPS.includes(Number(last) as ScaleStep);
+    const group = isStep ? segments.slice(0, -1).join('-') : undefined;
+    const tokenGroup = segments.slice(0, isStep ? -2 : -1).join('.');
+    // Scale steps are described as "<name> <step>"
+    const name = isStep ? token.description?.replace(/\s+\d+$/, '') : token.description;
+    const entry: ImportEntry = { key: segments.join('-'), group, name, value, path, alias };
+    if (tokenGroup) {
+      entry.tokenGroup = tokenGroup;
+    }
+
+    for (const mode of ['dark', 'highContrast'] as const) {
+      const override = overrides[mode]?.get(path);
+      const modeValue = override
+        ? readTokenColor(resolveToken(new Map([...tokens, ...overrides[mode]!]), override.value).value)
+        : readTokenColor(resolveToken(tokens, token.modes?.[mode]).value);
+      if (modeValue !== null) {
+        entry.modes = { ...entry.modes, [mode]: modeValue };
+      }
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Read a DTCG tokens file, following `{group.token}` aliases
+ */
+function readTokens(data: unknown, skipped: ImportIssue[]): ImportEntry[] {
+  return readTokenEntries(collectTokens(data, DTCG_KEYS), skipped);
+}
+
+/**
+ * Find the color mode a Tokens Studio set or Figma mode name stands for
+ */
+function readModeName(name: string): Exclude<ColorMode, 'light'> | undefined {
+  if (/high[\s_-]*contrast/i.test(name)) {
+    return 'highContrast';
+  }
+  if (/dark/i.test(name)) {
+    return 'dark';
+  }
+  return undefined;
+}
+
+/**
+ * Read a Tokens Studio file
+ * Multi-set files list their sets in `$metadata.tokenSetOrder`; sets named
+ * after dark or high contrast become that mode's overrides and the rest are
+ * merged in order as the light values. Files without metadata are one set.
+ */
+function readTokensStudio(data: unknown, skipped: ImportIssue[]): ImportEntry[] {
+  const record = (data ?? {}) as Record<string, unknown>;
+  const metadata = (record.$metadata ?? {}) as { tokenSetOrder?: unknown };
+  const order = Array.isArray(metadata.tokenSetOrder)
+    ? (metadata.tokenSetOrder as unknown[]).filter((set): set is string => typeof set === 'string' && set in record)
+    : null;
+
+  if (!order) {
+    return readTokenEntries(collectTokens(record, TOKENS_STUDIO_KEYS), skipped);
+  }
+
+  const base = new Map<string, TokenNode>();
+  const overrides: Partial<Record<Exclude<ColorMode, 'light'>, Map<string, TokenNode>>> = {};
+  for (const set of order) {
+    const mode = readModeName(set);
+    const tokens = collectTokens(record[set], TOKENS_STUDIO_KEYS);
+    if (mode) {
+      overrides[mode] = new Map([...(overrides[mode] ?? []), ...tokens]);
+    } else {
+      tokens.forEach((token, path) => base.set(path, token));
+    }
+  }
+
+  for (const [mode, tokens] of Object.entries(overrides)) {
+    for (const path of tokens.keys()) {
+      if (!base.has(path)) {
+        skipped.push({ text: `${mode}.${path}`, reason: 'No light value for this mode override' });
+      }
+    }
+  }
+
+  return readTokenEntries(base, skipped, overrides);
+}
+
+/**
+ * Read a Figma Variables export: the REST API's local variables response or plugin objects
+ * Each collection's default mode is the light value and modes named dark or
+ * high contrast fill the other modes. Variable names split into token paths
+ * at `/`, and `VARIABLE_ALIAS` values are followed and kept as aliases.
+ */
+function readFigma(data: unknown, skipped: ImportIssue[]): ImportEntry[] {
+  const record = (data ?? {}) as Record<string, unknown>;
+  const meta = (record.meta ?? record) as Record<string, unknown>;
+  const list = <T>(value: unknown): T[] =>
+    Array.isArray(value) ? value : value && typeof value === 'object' ? Object.values(value) : [];
+
+  interface FigmaCollection { id: string; name?: string; defaultModeId: string; modes: Array<{ modeId: string; name: string }> }
+  interface FigmaVariable { id: string; name: string; description?: string; variableCollectionId: string; resolvedType: string; valuesByMode: Record<string, unknown> }
+
+  const collections = new Map(list<FigmaCollection>(meta.variableCollections).map((c) => [c.id, c]));
+  const variables = new Map(list<FigmaVariable>(meta.variables).map((v) => [v.id, v]));
+  const pathOf = (variable: FigmaVariable) =>
+    variable.name.split('/').map((segment) => formatName(segment, 'kebab'));
+
+  // Mode ids of each collection by color mode
+  const modeIds = new Map<string, Partial<Record<ColorMode, string>>>();
+  for (const collection of collections.values()) {
+    const ids: Partial<Record<ColorMode, string>> = { light: collection.defaultModeId };
+    for (const mode of collection.modes ?? []) {
+      const colorMode = readModeName(mode.name);
+      if (colorMode && !ids[colorMode]) {
+        ids[colorMode] = mode.modeId;
+      } else if (!colorMode && mode.modeId !== collection.defaultModeId) {
+        skipped.push({ text: `${collection.name ?? collection.id}: ${mode.name}`, reason: 'Mode is not light, dark or high contrast' });
+      }
+    }
+    modeIds.set(collection.id, ids);
+  }
+
+  const valueIn = (variable: FigmaVariable, mode: ColorMode, depth = 0): string | null => {
+    const ids = modeIds.get(variable.variableCollectionId) ?? {};
+    const value = variable.valuesByMode?.[ids[mode] ?? ids.light ?? ''] as Record<string, unknown> | undefined;
+    if (!value || typeof value !== 'object' || depth > MAX_ALIAS_DEPTH) {
+      return null;
+    }
+    if (value.type === 'VARIABLE_ALIAS') {
+      const target = variables.get(String(value.id));
+      return target ? valueIn(target, mode, depth + 1) : null;
+    }
+    const channel = (v: unknown) => Math.round((typeof v === 'number' ? v : 0) * 255);
+    const alpha = typeof value.a === 'number' && value.a < 1 ? ` / ${value.a}` : '';
+    return `rgb(${channel(value.r)} ${channel(value.g)} ${channel(value.b)}${alpha})`;
+  };
+
+  const entries: ImportEntry[] = [];
+  for (const variable of variables.values()) {
+    if (variable.resolvedType !== 'COLOR') continue;
+
+    const segments = pathOf(variable);
+    const value = valueIn(variable, 'light');
+    if (value === null) {
+      skipped.push({ text: variable.name, reason: 'Variable has no value in its default mode' });
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    const isStep = segments.length > 1 && SCALE_STEPS.includes(Number(last) as ScaleStep);
+    const entry: ImportEntry = {
+      key: segments.join('-'),
+      group: isStep ? segments.slice(0, -1).join('-') : undefined,
+      value,
+      path: segments.join('.'),
+    };
+    const tokenGroup = segments.slice(0, isStep ? -2 : -1).join('.');
+    if (tokenGroup) {
+      entry.tokenGroup = tokenGroup;
+    }
+
+    const light = variable.valuesByMode?.[modeIds.get(variable.variableCollectionId)?.light ?? ''] as Record<string, unknown> | undefined;
+    const target = light?.type === 'VARIABLE_ALIAS' ? variables.get(String(light.id)) : undefined;
+    if (target) {
+      entry.alias = pathOf(target).join('.');
+    }
+
+    for (const mode of ['dark', 'highContrast'] as const) {
+      if (!modeIds.get(variable.variableCollectionId)?.[mode]) continue;
+      // Every variable has a value in every mode; only differences are overrides
+      const modeValue = valueIn(variable, mode);
+      if (modeValue !== null && modeValue !== value) {
+        entry.modes = { ...entry.modes, [mode]: modeValue };
+      }
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Read `{ colors: {...} }` JSON, or a bare object of colors
+ */
+function readJSON(data: unknown, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  const record = (data ?? {}) as Record<string, unknown>;
+  const root = record.colors && typeof record.colors === 'object' ? record.colors : record;
+
+  const walk = (node: Record<string, unknown>, path: string[], visit: (key: string, group: string | undefined, value: string) => void) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (value && typeof value === 'object') {
+        walk(value as Record<string, unknown>, [...path, key], visit);
+      } else if (typeof value === 'string') {
+        visit([...path, key].join('_'), path.length > 0 ? path.join('_') : undefined, value);
+      } else {
+        skipped.push({ text: [...path, key].join('.'), reason: 'Value is not a color string' });
+      }
+    }
+  };
+  walk(root as Record<string, unknown>, [], (key, group, value) => entries.push({ key, group, value }));
+
+  // Other modes repeat the keys of the colors they override
+  const modes = root === record.colors && record.modes && typeof record.modes === 'object' ? record.modes : {};
+  for (const mode of ['dark', 'highContrast'] as const) {
+    const overrides = (modes as Record<string, unknown>)[mode];
+    if (!overrides || typeof overrides !== 'object') continue;
+
+    walk(overrides as Record<string, unknown>, [], (key, _group, value) => {
+      const entry = entries.find((e) => e.key === key);
+      if (entry) {
+        entry.modes = { ...entry.modes, [mode]: value };
+      } else {
+        skipped.push({ text: `${mode}.${key}`, reason: 'No light value for this mode override' });
+      }
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Get the color mode a swatch file names, such as the `Dark` group or the
+ * `(High Contrast)` suffix the ASE and GPL exports write
+ */
+function readSwatchMode(text: string): Exclude<ColorMode, 'light'> | undefined {
+  const mode = COLOR_MODES.find((m) => m.name.toLowerCase() === text.trim().toLowerCase());
+  return mode && mode.id !== 'light' ? mode.id : undefined;
+}
+
+/**
+ * Turn a swatch name such as `Neutral 500` into an entry
+ * Names ending in a scale step join that step's group; swatches in any other
+ * group are placed in a token group of the same name.
+ */
+function readSwatch(name: string, value: string, swatchGroup?: string, line?: number): ImportEntry {
+  const key = formatName(name, 'kebab');
+  const step = splitStepKey(key);
+  const tokenGroup = swatchGroup && formatName(swatchGroup, 'kebab') !== step?.group ? formatName(swatchGroup, 'kebab') : undefined;
+  if (step) {
+    return { key, group: step.group, name: name.replace(/[\s_-]*\d+\s*$/, ''), value, tokenGroup, line };
+  }
+  return { key, name, value, tokenGroup, line };
+}
+
+/**
+ * Set a mode value on the swatch of the same name
+ */
+function addSwatchMode(
+  entries: ImportEntry[],
+  name: string,
+  mode: Exclude<ColorMode, 'light'>,
+  value: string,
+  skipped: ImportIssue[],
+  line?: number
+): void {
+  const entry = entries.find((e) => e.key === formatName(name, 'kebab'));
+  if (entry) {
+    entry.modes = { ...entry.modes, [mode]: value };
+  } else {
+    skipped.push({ line, text: name, reason: 'No light value for this mode override' });
+  }
+}
+
+/**
+ * Read a GIMP palette
+ * Swatches named like `Primary (Dark)` become that mode's value for `Primary`.
+ * Unnamed swatches are numbered.
+ */
+function readGPL(source: string, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+
+  source.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line === 'GIMP Palette' || /^(Name|Columns)\s*:/.test(line)) {
+      return;
+    }
+
+    const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line);
+    if (!match || [match[1], match[2], match[3]].some((channel) => Number(channel) > 255)) {
+      skipped.push({ line: index + 1, text: line, reason: 'Not an R G B swatch line' });
+      return;
+    }
+
+    const value = rgbToHex({ r: Number(match[1]), g: Number(match[2]), b: Number(match[3]) }).toUpperCase();
+    const name = match[4].trim() || `Color ${entries.length + 1}`;
+    const suffix = /^(.+?)\s*\(([^)]+)\)$/.exec(name);
+    const mode = suffix ? readSwatchMode(suffix[2]) : undefined;
+    if (suffix && mode) {
+      addSwatchMode(entries, suffix[1], mode, value, skipped, index + 1);
+      return;
+    }
+    entries.push(readSwatch(name, value, undefined, index + 1));
+  });
+
+  return entries;
+}
+
+/**
+ * Read an Adobe Swatch Exchange file
+ * RGB, CMYK, Lab and Gray swatches are read; a `Dark` or `High Contrast`
+ * group holds that mode's values. CMYK is converted without a color profile,
+ * so expect it to differ from what Adobe apps show.
+ */
+function readASE(data: Uint8Array, skipped: ImportIssue[]): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const ascii = (start: number, length: number) => String.fromCharCode(...data.subarray(start, start + length));
+
+  if (data.length < 12 || ascii(0, 4) !== 'ASEF') {
+    skipped.push({ text: ascii(0, 4), reason: 'Not an Adobe Swatch Exchange file' });
+    return entries;
+  }
+
+  const count = view.getUint32(8);
+  let offset = 12;
+  let group: string | undefined;
+  for (let block = 0; block < count; block++) {
+    if (offset + 6 > data.length) {
+      skipped.push({ text: `Block ${block + 1}`, reason: 'File ends before this block' });
+      break;
+    }
+    const type = view.getUint16(offset);
+    const start = offset + 6;
+    offset = start + view.getUint32(offset + 2);
+    if (offset > data.length) {
+      skipped.push({ text: `Block ${block + 1}`, reason: 'File ends inside this block' });
+      break;
+    }
+
+    // Group end
+    if (type === 0xc002) {
+      group = undefined;
+      continue;
+    }
+
+    const nameLength = view.getUint16(start);
+    const name = String.fromCharCode(
+      ...Array.from({ length: nameLength }, (_, i) => view.getUint16(start + 2 + i * 2))
+    ).replace(/\0+$/, '');
+    if (type === 0xc001) {
+      group = name;
+      continue;
+    }
+    if (type !== 0x0001) {
+      continue;
+    }
+
+    const modelStart = start + 2 + nameLength * 2;
+    const model = ascii(modelStart, 4).trim();
+    const values = (length: number) => Array.from({ length }, (_, i) => view.getFloat32(modelStart + 4 + i * 4));
+    let value: string | undefined;
+    if (model === 'RGB') {
+      const [r, g, b] = values(3).map((v) => Math.round(v * 255));
+      value = rgbToHex({ r, g, b });
+    } else if (model === 'CMYK') {
+      const [c, m, y, k] = values(4);
+      const [r, g, b] = [c, m, y].map((v) => Math.round(255 * (1 - v) * (1 - k)));
+      value = rgbToHex({ r, g, b });
+    } else if (model === 'LAB') {
+      // Lightness is stored as a fraction, a and b as they are
+      const [l, a, b] = values(3);
+      value = `lab(${l * 100} ${a} ${b})`;
+    } else if (model === 'Gray') {
+      const gray = Math.round(values(1)[0] * 255);
+      value = rgbToHex({ r: gray, g: gray, b: gray });
+    }
+    if (!value) {
+      skipped.push({ text: name, reason: `Unsupported color model ${model}` });
+      continue;
+    }
+
+    const mode = group ? readSwatchMode(group) : undefined;
+    if (mode) {
+      addSwatchMode(entries, name, mode, value, skipped);
+    } else {
+      entries.push(readSwatch(name || `Color ${entries.length + 1}`, value, group));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Recognize a complete 50–950 group that the scale generator produces exactly
+ * Returns the pinned step, or null when the group has to be kept as separate colors.
+ */
+function findScaleBase(steps: Map<number, string>): ScaleStep | null {
+  if (steps.size !== SCALE_STEPS.length || !SCALE_STEPS.every((step) => steps.has(step))) {
+    return null;
+  }
+
+  for (const step of SCALE_STEPS) {
+    const base: PaletteColor = { id: '', name: '', hex: steps.get(step)! };
+    const scale = generateTonalScale(base, { baseStep: step });
+    if (scale.swatches.every((swatch) => swatch.hex === steps.get(swatch.step))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse an entry's dark and high contrast values to hex, reporting unreadable ones
+ */
+function readEntryModes(entry: ImportEntry, skipped: ImportIssue[]): PaletteColor['modes'] {
+  let modes: PaletteColor['modes'];
+
+  for (const [mode, value] of Object.entries(entry.modes ?? {})) {
+    const rgb = parseColor(value);
+    if (!rgb) {
+      skipped.push({ line: entry.line, text: `${entry.key} (${mode}): ${value}`, reason: 'Unrecognized color value' });
+      continue;
+    }
+    modes = { ...modes, [mode]: rgbToHex({ r: rgb.r, g: rgb.g, b: rgb.b }).toUpperCase() };
+  }
+
+  return modes;
+}
+
+/**
+ * Turn entries into palette colors
+ * Groups that match a generated tonal scale become one scaled color; other
+ * groups are kept as one color per step. A scaled color takes its other mode
+ * values from the step its light ramp is pinned to. Entries that referenced
+ * another token become aliases of the color it was read into.
+ */
+function buildPalette(entries: ImportEntry[], skipped: ImportIssue[]): PaletteColor[] {
+  const colors: PaletteColor[] = [];
+  const parsed = new Map<ImportEntry, RGB>();
+  const targets = new Map<string, PaletteColorAlias>();
+  const aliases = new Map<PaletteColor, string>();
+
+  for (const entry of entries) {
+    const rgb = parseColor(entry.value);
+    if (!rgb) {
+      skipped.push({ line: entry.line, text: `${entry.key}: ${entry.value}`, reason: 'Unrecognized color value' });
+      continue;
+    }
+    parsed.set(entry, rgb);
+  }
+
+  // Collect the steps of each group so complete ramps can be recognized
+  const groups = new Map<string, Map<number, string>>();
+  for (const [entry, rgb] of parsed) {
+    if (!entry.group) continue;
+    const step = Number(entry.key.slice(entry.group.length + 1));
+    const steps = groups.get(entry.group) ?? new Map<number, string>();
+    steps.set(step, rgbToHex(rgb).toUpperCase());
+    groups.set(entry.group, steps);
+  }
+
+  const scaleBases = new Map<string, ScaleStep | null>();
+  for (const [entry, rgb] of parsed) {
+    if (entry.group) {
+      const group = entry.group;
+      if (!scaleBases.has(group)) {
+        const baseStep = findScaleBase(groups.get(group)!);
+        scaleBases.set(group, baseStep);
+        if (baseStep !== null) {
+          const color: PaletteColor = {
+            id: generateId(),
+            name: entry.name ?? keyToName(group),
+            hex: groups.get(group)!.get(baseStep)!,
+            scale: { baseStep },
+          };
+          if (entry.tokenGroup) {
+            color.group = entry.tokenGroup;
+          }
+          const baseEntry = entries.find((e) => e.group === group && Number(e.key.slice(group.length + 1)) === baseStep);
+          const modes = baseEntry ? readEntryModes(baseEntry, skipped) : undefined;
+          if (modes) {
+            color.modes = modes;
+          }
+          colors.push(color);
+        }
+      }
+      if (scaleBases.get(group) !== null) {
+        if (entry.path) {
+          targets.set(entry.path, { id: colors[colors.length - 1].id, step: Number(entry.key.slice(group.length + 1)) as ScaleStep });
+        }
+        continue;
+      }
+    }
+
+    const color: PaletteColor = {
+      id: generateId(),
+      name: entry.group && entry.name ? `${entry.name} ${entry.key.slice(entry.group.length + 1)}` : (entry.name ?? keyToName(entry.key)),
+      hex: rgbToHex({ r: rgb.r, g: rgb.g, b: rgb.b }).toUpperCase(),
+    };
+    if (rgb.a !== undefined) {
+      color.alpha = Math.round(rgb.a * 1000) / 1000;
+    }
+    const wideGamut = parseWideGamutColor(entry.value);
+    if (wideGamut && !isWideGamutInGamut(wideGamut)) {
+      color.wideGamut = { space: wideGamut.space, components: wideGamut.components };
+    }
+    const modes = readEntryModes(entry, skipped);
+    if (modes) {
+      color.modes = modes;
+    }
+    if (entry.tokenGroup && !entry.group) {
+      color.group = entry.tokenGroup;
+    }
+    if (entry.path) {
+      targets.set(entry.path, { id: color.id });
+    }
+    if (entry.alias && !entry.group) {
+      aliases.set(color, entry.alias);
+    }
+    colors.push(color);
+  }
+
+  // Aliases are linked once every color they could point to exists
+  for (const [color, path] of aliases) {
+    const target = targets.get(path);
+    if (target && target.id !== color.id) {
+      color.alias = target;
+    }
+  }
+
+  return resolveAliases(colors);
+}
+
+/**
+ * Read declared pairings saved by the JSON and Design Tokens exports
+ * Colors are referenced by export key (`text_primary`) or token alias
+ * (`{color.text-primary}`); pairings naming unknown colors are reported.
+ */
+function readPairings(data: unknown, colors: PaletteColor[], format: ImportFormat, skipped: ImportIssue[]): PalettePairing[] {
+  const record = (data ?? {}) as Record<string, unknown>;
+  const extensions = (record.$extensions ?? {}) as Record<string, unknown>;
+  const list = format === 'tokens' ? extensions['com.huepass.pairings'] : record.pairings;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  const find = (reference: unknown) => {
+    if (format === 'tokens') {
+      const path = typeof reference === 'string' ? reference.replace(/^\{(?:color\.)?(.+)\}$/, '$1') : '';
+      return colors.find((color) => getTokenPath(color).join('.') === path || getColorKey(color, 'kebab') === path);
+    }
+    return colors.find((color) => getColorKey(color, 'snake') === reference);
+  };
+
+  const pairings: PalettePairing[] = [];
+  for (const entry of list as Array<Record<string, unknown>>) {
+    const foreground = find(entry?.foreground);
+    const background = find(entry?.background);
+    const requirement = PAIRING_REQUIREMENTS.find((r) => r.id === entry?.requirement)?.id;
+    if (!foreground || !background || !requirement) {
+      skipped.push({ text: JSON.stringify(entry), reason: 'Pairing references an unknown color or requirement' });
+      continue;
+    }
+
+    const pairing: PalettePairing = {
+      id: generateId(),
+      foregroundId: foreground.id,
+      backgroundId: background.id,
+      requirement: requirement as PairingRequirement,
+    };
+    if (requirement === 'apca' && typeof entry.apcaLc === 'number') {
+      pairing.apcaLc = entry.apcaLc;
+    }
+    if (isTypography(entry.typography)) {
+      pairing.typography = { size: entry.typography.size, unit: entry.typography.unit, weight: entry.typography.weight };
+    }
+    pairings.push(pairing);
+  }
+
+  return pairings;
+}
+
+/**
+ * Import a palette from exported or hand-written source
+ * The format is detected when not given. Lines or entries that could not be
+ * read are returned in `skipped` rather than failing the whole import.
+ */
+export function importPalette(source: string, format: ImportFormat = detectImportFormat(source)): ImportResult {
+  const skipped: ImportIssue[] = [];
+  let entries: ImportEntry[] = [];
+
+  switch (format) {
+    case 'css':
+      entries = readCSS(source, skipped);
+      break;
+    case 'scss':
+      entries = readSCSS(source, skipped);
+      break;
+    case 'tailwind':
+      entries = readTailwind(source, skipped);
+      break;
+    case 'gpl':
+      entries = readGPL(source, skipped);
+      break;
+    case 'ase':
+      skipped.push({ text: source.slice(0, 4), reason: 'Adobe Swatch Exchange is binary, import the .ase file instead' });
+      break;
+    case 'tokens':
+    case 'tokens-studio':
+    case 'figma':
+    case 'json': {
+      let data: unknown;
+      try {
+        data = JSON.parse(source);
+      } catch (error) {
+        skipped.push({ text: source.trim().split('\n')[0] ?? '', reason: `Invalid JSON: ${(error as Error).message}` });
+        return { format, colors: [], pairings: [], skipped };
+      }
+      const readers = { tokens: readTokens, 'tokens-studio': readTokensStudio, figma: readFigma, json: readJSON };
+      entries = readers[format](data, skipped);
+      const colors = buildPalette(entries, skipped);
+      return { format, colors, pairings: readPairings(data, colors, format, skipped), skipped };
+    }
+  }
+
+  return { format, colors: buildPalette(entries, skipped), pairings: [], skipped };
+}
+
+/**
+ * Import a palette from the contents of a file
+ * Adobe Swatch Exchange files are read as binary; anything else is decoded as
+ * UTF-8 and imported as source.
+ */
+export function importPaletteFile(data: Uint8Array, format?: ImportFormat): ImportResult {
+  const isASE = format === 'ase' || (!format && String.fromCharCode(...data.subarray(0, 4)) === 'ASEF');
+  if (!isASE) {
+    return importPalette(new TextDecoder().decode(data), format);
+  }
+
+  const skipped: ImportIssue[] = [];
+  return { format: 'ase', colors: buildPalette(readASE(data, skipped), skipped), pairings: [], skipped };
+}
@@ -0,0 +1,270 @@
+/**
+ * Low Vision & Environmental Condition Simulation
+ *
+ * Blur, cataracts, field loss, glare and dim displays. Conditions that only
+ * change color have a per-color model, so their effect on a contrast ratio
+ * can be calculated; the rest are spatial and exist only as page filters.
+ */
+
+import { parseColor } from './color-parser';
+import { rgbToHex } from './contrast';
+
+export type LowVisionCondition =
+  | 'blur-mild'             // Acuity around 20/40
+  | 'blur-moderate'         // Acuity around 20/80
+  | 'blur-severe'           // Acuity around 20/200, legal blindness
+  | 'cataracts'             // Yellowed, scattering lens
+  | 'glaucoma'              // Loss of peripheral vision
+  | 'macular-degeneration'  // Loss of central vision
+  | 'glare'                 // Bright sunlight on the screen
+  | 'low-brightness'        // Display dimmed to save battery
+  | 'none';
+
+export interface LowVisionInfo {
+  id: LowVisionCondition;
+  name: string;
+  description: string;
+}
+
+export const LOW_VISION_CONDITIONS: LowVisionInfo[] = [
+  {
+    id: 'blur-mild',
+    name: 'Mild Blur',
+    description: 'Acuity around 20/40, uncorrected nearsightedness'
+  },
+  {
+    id: 'blur-moderate',
+    name: 'Moderate Blur',
+    description: 'Acuity around 20/80, small text is hard to read'
+  },
+  {
+    id: 'blur-severe',
+    name: 'Severe Blur',
+    description: 'Acuity around 20/200, the threshold of legal blindness'
+  },
+  {
+    id: 'cataracts',
+    name: 'Cataracts',
+    description: 'Clouded, yellowed lens; blues fade and contrast drops'
+  },
+  {
+    id: 'glaucoma',
+    name: 'Glaucoma',
+    description: 'Tunnel vision, the edges of the view are lost'
+  },
+  {
+    id: 'macular-degeneration',
+    name: 'Macular Degeneration',
+    description: 'Central vision is lost, the edges remain'
+  },
+  {
+    id: 'glare',
+    name: 'Sunlight Glare',
+    description: 'Reflected light washes out dark colors'
+  },
+  {
+    id: 'low-brightness',
+    name: 'Low Brightness',
+    description: 'Display dimmed to a quarter of full brightness'
+  }
+];
+
+/**
+ * Color models in linear RGB: each channel is scaled by its gain, then a
+ * veiling light is added to all three. Cataracts pass less blue than red and
+ * scatter light across the retina; glare adds reflected light; a dimmed display
+ * scales everything down while the room's light stays the same.
+ */
+const COLOR_MODELS: Partial<Record<LowVisionCondition, { gain: [number, number, number]; veil: number }>> = {
+  cataracts: { gain: [0.88, 0.8, 0.52], veil: 0.06 },
+  glare: { gain: [1, 1, 1], veil: 0.35 },
+  'low-brightness': { gain: [0.25, 0.25, 0.25], veil: 0 }
+};
+
+/**
+ * Page filter blur in CSS pixels, for a typical viewing distance
+ */
+const BLUR_RADII: Partial<Record<LowVisionCondition, number>> = {
+  'blur-mild': 1.5,
+  'blur-moderate': 3,
+  'blur-severe': 6,
+  cataracts: 1
+};
+
+/**
+ * Conditions shown with a viewport overlay that follows the pointer
+ */
+const FIELD_CONDITIONS: LowVisionCondition[] = ['glaucoma', 'macular-degeneration'];
+
+/**
+ * Convert sRGB to linear RGB
+ */
+function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear RGB to sRGB
+ */
+function linearToSrgb(value: number): number {
+  const v = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.max(0, Math.min(255, v * 255)));
+}
+
+/**
+ * Check whether a condition can be simulated on a single color
+ */
+export function hasLowVisionColorModel(condition: LowVisionCondition): boolean {
+  return condition in COLOR_MODELS;
+}
+
+/**
+ * Simulate how a color appears under a condition
+ * Accepts any CSS color syntax and returns a hex string, or null for the
+ * spatial conditions (blur and field loss) that have no per-color model.
+ */
+export function simulateLowVision(hex: string, condition: LowVisionCondition): string | null {
+  if (condition === 'none') return hex;
+
+  const model = COLOR_MODELS[condition];
+  if (!model) return null;
+
+  const rgb = parseColor(hex);
+  if (!rgb) return null;
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((value, i) =>
+    linearToSrgb(srgbToLinear(value) * model.gain[i] + model.veil)
+  );
+
+  return rgbToHex({ r, g, b, a: rgb.a }).toUpperCase();
+}
+
+/**
+ * Get SVG filter ID for a condition
+ */
+export function getLowVisionFilterId(condition: LowVisionCondition): string {
+  return `low-vision-filter-${condition}`;
+}
+
+/**
+ * Generate SVG filter definitions for the conditions that filter the page
+ * Color models use the same linear RGB math as simulateLowVision, with the
+ * veil as the feColorMatrix offset column.
+ */
+export function generateLowVisionFilters(): string {
+  const filters = LOW_VISION_CONDITIONS.filter(
+    (condition) => COLOR_MODELS[condition.id] || BLUR_RADII[condition.id]
+  ).map((condition) => {
+    const model = COLOR_MODELS[condition.id];
+    const blur = BLUR_RADII[condition.id];
+    const matrix = model
+      ? `
+          <feColorMatrix type="matrix" values="${model.gain
+            .map((gain, i) => [0, 1, 2].map((j) => (i === j ? gain : 0)).concat(model.veil).join(' '))
+            .concat('0 0 0 1 0')
+            .join('\n')}"/>`
+      : '';
+    const gaussian = blur ? `
+          <feGaussianBlur stdDeviation="${blur}"/>` : '';
+
+    return `
+        <filter id="${getLowVisionFilterId(condition.id)}" color-interpolation-filters="linearRGB">${matrix}${gaussian}
+        </filter>`;
+  }).join('');
+
+  return `
+    <svg class="low-vision-filters" aria-hidden="true" style="position: absolute; width: 0; height: 0; overflow: hidden;">
+      <defs>${filters}
+      </defs>
+    </svg>
+  `;
+}
+
+/**
+ * State management for low vision simulation
+ */
+let currentLowVisionCondition: LowVisionCondition = 'none';
+const LOW_VISION_STORAGE_KEY = 'huepass-low-vision';
+const OVERLAY_ID = 'low-vision-overlay';
+
+/**
+ * Get current low vision condition
+ */
+export function getCurrentLowVisionCondition(): LowVisionCondition {
+  return currentLowVisionCondition;
+}
+
+/**
+ * Move the field loss overlay to follow the pointer, as the eye would
+ */
+function trackPointer(e: PointerEvent): void {
+  const overlay = document.getElementById(OVERLAY_ID);
+  overlay?.style.setProperty('--low-vision-x', `${e.clientX}px`);
+  overlay?.style.setProperty('--low-vision-y', `${e.clientY}px`);
+}
+
+/**
+ * Apply the current condition's filter or overlay to the page
+ */
+function applyLowVisionFilter(): void {
+  const html = document.documentElement;
+  const condition = currentLowVisionCondition;
+
+  if (COLOR_MODELS[condition] || BLUR_RADII[condition]) {
+    html.style.setProperty('--low-vision-filter', `url(#${getLowVisionFilterId(condition)})`);
+  } else {
+    html.style.removeProperty('--low-vision-filter');
+  }
+
+  let overlay = document.getElementById(OVERLAY_ID);
+  if (FIELD_CONDITIONS.includes(condition)) {
+    if (!overlay) {
+      overlay = document.createElement('div');
+      overlay.id = OVERLAY_ID;
+      overlay.className = 'low-vision-overlay';
+      overlay.setAttribute('aria-hidden', 'true');
+      document.body.appendChild(overlay);
+      window.addEventListener('pointermove', trackPointer);
+    }
+    overlay.dataset.condition = condition;
+  } else if (overlay) {
+    overlay.remove();
+    window.removeEventListener('pointermove', trackPointer);
+  }
+
+  if (condition === 'none') {
+    html.removeAttribute('data-low-vision');
+  } else {
+    html.setAttribute('data-low-vision', condition);
+  }
+
+  // Dispatch event for components to react
+  window.dispatchEvent(new CustomEvent('lowVisionChange', { detail: { condition } }));
+}
+
+/**
+ * Set low vision condition and apply to page
+ */
+export function setLowVisionCondition(condition: LowVisionCondition): void {
+  currentLowVisionCondition = condition;
+
+  // Save preference
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(LOW_VISION_STORAGE_KEY, condition);
+  }
+
+  applyLowVisionFilter();
+}
+
+/**
+ * Initialize low vision condition from stored preference
+ */
+export function initLowVisionCondition(): void {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(LOW_VISION_STORAGE_KEY) as LowVisionCondition | null;
+    if (stored && LOW_VISION_CONDITIONS.some((c) => c.id === stored)) {
+      setLowVisionCondition(stored);
+    }
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Palette Library
+ * Named palettes with timestamped snapshots, stored with a schema version
+ */
+
+import { generateId, generateContrastMatrix, getColorModes, getModePalette, COLOR_MODES, PAIRING_REQUIREMENTS } from './palette';
+import type { ColorMode, PaletteColor, PalettePairing } from './palette';
+import { WCAG_THRESHOLDS } from './contrast';
+
+// Bump when the stored layout changes and add a step to migrateLibrary
+export const LIBRARY_SCHEMA_VERSION = 2;
+
+// Oldest snapshots are dropped beyond this many per palette
+const MAX_SNAPSHOTS = 50;
+
+export interface PaletteSnapshot {
+  id: string;
+  label: string;
+  createdAt: number;
+  colors: PaletteColor[];
+  pairings?: PalettePairing[]; // Missing on snapshots saved before pairings existed
+}
+
+export interface NamedPalette {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  colors: PaletteColor[];
+  pairings: PalettePairing[];
+  snapshots: PaletteSnapshot[];
+}
+
+export interface PaletteLibrary {
+  schemaVersion: number;
+  activeId: string;
+  palettes: NamedPalette[];
+}
+
+export interface PaletteColorChange {
+  before: PaletteColor;
+  after: PaletteColor;
+  fields: Array<'name' | 'hex' | 'alpha' | 'wideGamut' | 'scale' | 'modes' | 'group' | 'alias'>;
+}
+
+export type ContrastCriterion = keyof typeof WCAG_THRESHOLDS;
+
+export interface ContrastCriterionChange {
+  criterion: ContrastCriterion;
+  passes: boolean; // Status after the change
+}
+
+export interface ContrastFlip {
+  foreground: PaletteColor;
+  background: PaletteColor;
+  mode: ColorMode;
+  beforeRatio: number;
+  afterRatio: number;
+  changes: ContrastCriterionChange[];
+}
+
+export interface PaletteDiff {
+  added: PaletteColor[];
+  removed: PaletteColor[];
+  changed: PaletteColorChange[];
+  flips: ContrastFlip[];
+}
+
+/**
+ * Storage keys for localStorage
+ */
+const STORAGE_KEY = 'huepass-library';
+const LEGACY_STORAGE_KEY = 'huepass-palette';
+
+/**
+ * Library state, loaded on first use
+ */
+let library: PaletteLibrary | null = null;
+
+/**
+ * Deep copy colors or pairings so snapshots never share objects with the live palette
+ */
+function clone<T extends PaletteColor | PalettePairing>(items: T[]): T[] {
+  return JSON.parse(JSON.stringify(items));
+}
+
+/**
+ * Create an empty named palette
+ */
+function createNamedPalette(name: string, colors: PaletteColor[] = []): NamedPalette {
+  const now = Date.now();
+  return { id: generateId(), name, createdAt: now, updatedAt: now, colors, pairings: [], snapshots: [] };
+}
+
+/**
+ * Bring stored data up to the current schema
+ * Unversioned data is the single palette array saved before the library existed.
+ */
+export function migrateLibrary(data: unknown, legacyColors: PaletteColor[] = []): PaletteLibrary {
+  const stored = data as Partial<PaletteLibrary> | null;
+
+  if (!stored || typeof stored !== 'object' || typeof stored.schemaVersion !== 'number') {
+    const palette = createNamedPalette('My Palette', legacyColors);
+    return { schemaVersion: LIBRARY_SCHEMA_VERSION, activeId: palette.id, palettes: [palette] };
+  }
+
+  const migrated = stored as PaletteLibrary;
+
+  // Version 2 adds declared pairings
+  if (migrated.schemaVersion < 2 && Array.isArray(migrated.palettes)) {
+    for (const palette of migrated.palettes) {
+      palette.pairings = palette.pairings ?? [];
+    }
+  }
+
+  // Future schema versions migrate step by step here
+  if (!Array.isArray(migrated.palettes) || migrated.palettes.length === 0) {
+    migrated.palettes = [createNamedPalette('My Palette')];
+  }
+  if (!migrated.palettes.some((p) => p.id === migrated.activeId)) {
+    migrated.activeId = migrated.palettes[0].id;
+  }
+  migrated.schemaVersion = LIBRARY_SCHEMA_VERSION;
+  return migrated;
+}
+
+/**
+ * Load the library from localStorage, migrating older data
+ */
+export function getLibrary(): PaletteLibrary {
+  if (library) {
+    return library;
+  }
+
+  let data: unknown = null;
+  let legacyColors: PaletteColor[] = [];
+  if (typeof localStorage !== 'undefined') {
+    try {
+      data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    } catch {
+      data = null;
+    }
+    try {
+      const legacy = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? '[]');
+      legacyColors = Array.isArray(legacy) ? legacy : [];
+    } catch {
+      legacyColors = [];
+    }
+  }
+
+  library = migrateLibrary(data, legacyColors);
+  saveLibrary();
+  if (typeof localStorage !== 'undefined') {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return library;
+}
+
+/**
+ * Save the library to localStorage
+ */
+function saveLibrary(): void {
+  if (library && typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  }
+}
+
+/**
+ * Get a palette by id
+ */
+function findPalette(id: string): NamedPalette | undefined {
+  return getLibrary().palettes.find((p) => p.id === id);
+}
+
+/**
+ * Get the palette currently being edited
+ */
+export function getActivePalette(): NamedPalette {
+  const lib = getLibrary();
+  return lib.palettes.find((p) => p.id === lib.activeId) ?? lib.palettes[0];
+}
+
+/**
+ * Switch the palette being edited
+ */
+export function setActivePalette(id: string): void {
+  if (findPalette(id)) {
+    getLibrary().activeId = id;
+    saveLibrary();
+  }
+}
+
+/**
+ * Save colors to the active palette
+ */
+export function savePalette(colors: PaletteColor[]): void {
+  const palette = getActivePalette();
+  palette.colors = colors;
+  palette.updatedAt = Date.now();
+  saveLibrary();
+}
+
+/**
+ * Load the colors of the active palette
+ */
+export function loadPalette(): PaletteColor[] {
+  return clone(getActivePalette().colors);
+}
+
+/**
+ * Save declared pairings to the active palette
+ */
+export function savePairings(pairings: PalettePairing[]): void {
+  const palette = getActivePalette();
+  palette.pairings = pairings;
+  palette.updatedAt = Date.now();
+  saveLibrary();
+}
+
+/**
+ * Load the declared pairings of the active palette
+ */
+export function loadPairings(): PalettePairing[] {
+  return clone(getActivePalette().pairings);
+}
+
+/**
+ * Create a new empty palette and make it active
+ */
+export function createPalette(name: string): NamedPalette {
+  const palette = createNamedPalette(name);
+  const lib = getLibrary();
+  lib.palettes.push(palette);
+  lib.activeId = palette.id;
+  saveLibrary();
+  return palette;
+}
+
+/**
+ * Rename a palette
+ */
+export function renamePalette(id: string, name: string): void {
+  const palette = findPalette(id);
+  if (palette) {
+    palette.name = name || 'Untitled';
+    palette.updatedAt = Date.now();
+    saveLibrary();
+  }
+}
+
+/**
+ * Duplicate a palette with its colors and make the copy active
+ * Snapshots stay with the original.
+ */
+export function duplicatePalette(id: string): NamedPalette | null {
+  const source = findPalette(id);
+  if (!source) {
+    return null;
+  }
+
+  const palette = createNamedPalette(`${source.name} copy`, clone(source.colors));
+  palette.pairings = clone(source.pairings);
+  const lib = getLibrary();
+  lib.palettes.splice(lib.palettes.indexOf(source) + 1, 0, palette);
+  lib.activeId = palette.id;
+  saveLibrary();
+  return palette;
+}
+
+/**
+ * Delete a palette and its snapshots
+ * The library always keeps at least one palette.
+ */
+export function deletePalette(id: string): void {
+  const lib = getLibrary();
+  lib.palettes = lib.palettes.filter((p) => p.id !== id);
+  if (lib.palettes.length === 0) {
+    lib.palettes.push(createNamedPalette('My Palette'));
+  }
+  if (lib.activeId === id) {
+    lib.activeId = lib.palettes[0].id;
+  }
+  saveLibrary();
+}
+
+/**
+ * Record a snapshot of a palette's current colors
+ */
+export function createSnapshot(id: string, label?: string): PaletteSnapshot | null {
+  const palette = findPalette(id);
+  if (!palette) {
+    return null;
+  }
+
+  const createdAt = Date.now();
+  const snapshot: PaletteSnapshot = {
+    id: generateId(),
+    label: label || new Date(createdAt).toLocaleString(),
+    createdAt,
+    colors: clone(palette.colors),
+    pairings: clone(palette.pairings),
+  };
+  palette.snapshots.unshift(snapshot);
+  palette.snapshots = palette.snapshots.slice(0, MAX_SNAPSHOTS);
+  saveLibrary();
+  return snapshot;
+}
+
+/**
+ * Restore a snapshot as the palette's current colors and pairings
+ * The colors being replaced are snapshotted first so the restore can be undone.
+ */
+export function restoreSnapshot(id: string, snapshotId: string): PaletteColor[] | null {
+  const palette = findPalette(id);
+  const snapshot = palette?.snapshots.find((s) => s.id === snapshotId);
+  if (!palette || !snapshot) {
+    return null;
+  }
+
+  createSnapshot(id, `Before restoring "${snapshot.label}"`);
+  palette.colors = clone(snapshot.colors);
+  palette.pairings = clone(snapshot.pairings ?? []);
+  palette.updatedAt = Date.now();
+  saveLibrary();
+  return clone(palette.colors);
+}
+
+/**
+ * Delete a snapshot
+ */
+export function deleteSnapshot(id: string, snapshotId: string): void {
+  const palette = findPalette(id);
+  if (palette) {
+    palette.snapshots = palette.snapshots.filter((s) => s.id !== snapshotId);
+    saveLibrary();
+  }
+}
+
+/**
+ * Compare two versions of a palette
+ * Colors are matched by id, so renames and edits show as changes rather than
+ * an add and a remove. Flips are matrix cells present in both versions whose
+ * WCAG result differs for any criterion, checked in every mode either version
+ * defines.
+ */
+export function diffPalettes(before: PaletteColor[], after: PaletteColor[]): PaletteDiff {
+  const beforeById = new Map(before.map((c) => [c.id, c]));
+  const afterById = new Map(after.map((c) => [c.id, c]));
+
+  const added = after.filter((c) => !beforeById.has(c.id));
+  const removed = before.filter((c) => !afterById.has(c.id));
+
+  const changed: PaletteColorChange[] = [];
+  for (const color of after) {
+    const previous = beforeById.get(color.id);
+    if (!previous) continue;
+
+    const fields: PaletteColorChange['fields'] = [];
+    if (previous.name !== color.name) fields.push('name');
+    if (previous.hex.toUpperCase() !== color.hex.toUpperCase()) fields.push('hex');
+    if ((previous.alpha ?? 1) !== (color.alpha ?? 1)) fields.push('alpha');
+    if (JSON.stringify(previous.wideGamut ?? null) !== JSON.stringify(color.wideGamut ?? null)) fields.push('wideGamut');
+    if (JSON.stringify(previous.scale ?? null) !== JSON.stringify(color.scale ?? null)) fields.push('scale');
+    if (JSON.stringify(previous.modes ?? {}) !== JSON.stringify(color.modes ?? {})) fields.push('modes');
+    if ((previous.group ?? '') !== (color.group ?? '')) fields.push('group');
+    if (JSON.stringify(previous.alias ?? null) !== JSON.stringify(color.alias ?? null)) fields.push('alias');
+    if (fields.length > 0) {
+      changed.push({ before: previous, after: color, fields });
+    }
+  }
+
+  const criteria = PAIRING_REQUIREMENTS.map((r) => r.id).filter(
+    (id): id is ContrastCriterion => id in WCAG_THRESHOLDS
+  );
+  const modes = new Set([...getColorModes(before), ...getColorModes(after)]);
+
+  const flips: ContrastFlip[] = [];
+  for (const { id: mode } of COLOR_MODES.filter((m) => modes.has(m.id))) {
+    const beforeCells = new Map(
+      generateContrastMatrix(getModePalette(before, mode))
+        .flat()
+        .map((cell) => [`${cell.foregroundId}|${cell.backgroundId}`, cell])
+    );
+
+    for (const cell of generateContrastMatrix(getModePalette(after, mode)).flat()) {
+      if (cell.foregroundId === cell.backgroundId) continue;
+      const previous = beforeCells.get(`${cell.foregroundId}|${cell.backgroundId}`);
+      if (!previous) continue;
+
+      const changes = criteria
+        .filter((criterion) => previous.compliance[criterion] !== cell.compliance[criterion])
+        .map((criterion) => ({ criterion, passes: cell.compliance[criterion] }));
+      if (changes.length === 0) continue;
+
+      flips.push({
+        foreground: afterById.get(cell.foregroundId)!,
+        background: afterById.get(cell.backgroundId)!,
+        mode,
+        beforeRatio: previous.ratio,
+        afterRatio: cell.ratio,
+        changes,
+      });
+    }
+  }
+
+  return { added, removed, changed, flips };
+}
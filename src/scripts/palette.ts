@@ -2,15 +2,53 @@
  * Palette Management and Export Utilities
  */
 
-import { hexToRgb, getContrastRatio, formatContrastRatio, checkWCAGCompliance } from './contrast';
-import type { ContrastResult } from './contrast';
+import { hexToRgb, rgbToHex, getContrastRatio, formatContrastRatio, checkWCAGCompliance, WCAG_THRESHOLDS } from './contrast';
+import type { RGB, ContrastResult } from './contrast';
+import { getAPCAContrast, checkAPCACompliance, getAPCALevel, formatAPCAContrast, APCA_THRESHOLDS } from './apca';
+import type { APCAResult } from './apca';
+import { generateTonalScale } from './scales';
+import type { ScaleOptions, ScaleStep, TonalScale } from './scales';
+import { simulateCVD, getCVDSeverity, CVD_TYPES } from './color-blindness';
+import type { CVDType } from './color-blindness';
+import { getDeltaE2000 } from './color-space';
+import type { Vec3 } from './color-space';
+import { wideGamutToRgb, mapWideGamutColor, formatWideGamutColor } from './wide-gamut';
+import type { WideGamutColor } from './wide-gamut';
+import { checkTextCompliance, describeTypography, DEFAULT_TYPOGRAPHY } from './typography';
+import type { Typography, TextCompliance } from './typography';
+
+export type ColorMode = 'light' | 'dark' | 'highContrast';
+
+export interface ColorModeInfo {
+  id: ColorMode;
+  name: string;
+}
+
+export const COLOR_MODES: ColorModeInfo[] = [
+  { id: 'light', name: 'Light' },
+  { id: 'dark', name: 'Dark' },
+  { id: 'highContrast', name: 'High Contrast' },
+];
 
 export interface PaletteColor {
   id: string;
   name: string;
-  hex: string;
+  hex: string; // Light mode value
+  alpha?: number; // 0-1, opaque when omitted
+  wideGamut?: WideGamutColor; // Light value in Display P3 or Rec.2020 when sRGB cannot show it; hex is its gamut-mapped fallback
+  scale?: ScaleOptions; // Expanded into a 50–950 ramp on export when set
+  modes?: Partial<Record<Exclude<ColorMode, 'light'>, string>>; // Hex per extra mode; unset modes use the light value
+  group?: string; // Token group path such as `text` or `brand.neutral`, nests the token exports
+  alias?: PaletteColorAlias; // Exported as a token reference; hex and modes follow the target
+}
+
+export interface PaletteColorAlias {
+  id: string; // Palette color referenced
+  step?: ScaleStep; // Step of the target's tonal scale, when it has one
 }
 
+export type CSSModeStrategy = 'media' | 'class';
+
 export interface ColorPair {
   id: string;
   foreground: PaletteColor;
@@ -18,13 +56,75 @@ export interface ColorPair {
   contrastRatio: number;
 }
 
+export type ContrastAlgorithm = 'wcag' | 'apca';
+
 export interface ContrastMatrixCell {
   foregroundId: string;
   backgroundId: string;
   ratio: number;
   compliance: ContrastResult;
+  apca?: APCAResult;
+}
+
+export type PairingRequirement = keyof typeof WCAG_THRESHOLDS | 'textAA' | 'textAAA' | 'apca';
+
+export interface PairingRequirementInfo {
+  id: PairingRequirement;
+  name: string;
 }
 
+export const PAIRING_REQUIREMENTS: PairingRequirementInfo[] = [
+  { id: 'normalTextAA', name: 'Normal text AA' },
+  { id: 'normalTextAAA', name: 'Normal text AAA' },
+  { id: 'largeTextAA', name: 'Large text AA' },
+  { id: 'largeTextAAA', name: 'Large text AAA' },
+  { id: 'textAA', name: 'Text AA at size' },
+  { id: 'textAAA', name: 'Text AAA at size' },
+  { id: 'uiComponents', name: 'UI 3:1' },
+  { id: 'apca', name: 'APCA Lc' },
+];
+
+/**
+ * A foreground/background combination the product actually uses
+ */
+export interface PalettePairing {
+  id: string;
+  foregroundId: string;
+  backgroundId: string;
+  requirement: PairingRequirement;
+  apcaLc?: number; // Minimum |Lc| when the requirement is APCA
+  typography?: Typography; // Size and weight of the text, for the "at size" requirements
+}
+
+export interface PairingResult {
+  pairing: PalettePairing;
+  foreground: PaletteColor;
+  background: PaletteColor;
+  ratio: number;
+  lc: number;
+  passes: boolean;
+  text?: TextCompliance; // Verdict at the pairing's size and weight, with the APCA minimum size
+}
+
+export interface DistinguishabilityIssue {
+  first: PaletteColor;
+  second: PaletteColor;
+  cvdType: CVDType;
+  deltaE: number; // CIEDE2000 between the simulated colors
+  normalDeltaE: number; // CIEDE2000 with normal vision
+}
+
+// One exported color value; colors with a tonal scale have one per step
+interface ModeSwatch {
+  step?: ScaleStep;
+  values: Partial<Record<ColorMode, string>>; // Hex by mode, always including light
+  alpha: number;
+  wideGamut?: WideGamutColor; // Light value outside sRGB, for formats with a wide-gamut constructor
+}
+
+// CIEDE2000 distance below which two colors are hard to tell apart at a glance
+export const DISTINGUISHABILITY_THRESHOLD = 10;
+
 /**
  * Generate a unique ID
  */
@@ -32,12 +132,126 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Get the RGB value of a palette color, including its alpha
+ * Wide-gamut colors keep channels outside 0-255, so contrast uses their true
+ * luminance rather than that of the sRGB fallback.
+ */
+export function getPaletteColorRgb(color: PaletteColor): RGB | null {
+  const rgb = color.wideGamut ? wideGamutToRgb({ ...color.wideGamut, alpha: undefined }) : hexToRgb(color.hex);
+  if (!rgb) {
+    return null;
+  }
+  if (color.alpha !== undefined && color.alpha < 1) {
+    rgb.a = color.alpha;
+  }
+  return rgb;
+}
+
+/**
+ * Get the CSS hex value of a palette color (8-digit when translucent)
+ */
+export function getPaletteColorValue(color: PaletteColor): string {
+  const rgb = hexToRgb(color.hex);
+  if (!rgb) {
+    return color.hex;
+  }
+  if (color.alpha !== undefined && color.alpha < 1) {
+    rgb.a = color.alpha;
+  }
+  return rgbToHex(rgb).toUpperCase();
+}
+
+/**
+ * Get the tonal scale of a palette color, or null when it is exported as a single value
+ */
+export function getPaletteScale(color: PaletteColor): TonalScale | null {
+  return color.scale ? generateTonalScale(color, color.scale) : null;
+}
+
+/**
+ * Get the modes a palette defines: light plus every mode at least one color sets
+ */
+export function getColorModes(colors: PaletteColor[]): ColorMode[] {
+  return COLOR_MODES.map((m) => m.id).filter(
+    (mode) => mode === 'light' || colors.some((c) => c.modes?.[mode] !== undefined)
+  );
+}
+
+/**
+ * Get a palette color as it appears in a mode
+ * Colors without a value for the mode keep their light value. A scaled color's
+ * ramp in another mode is pinned at the step its light ramp resolved to, so
+ * every mode uses the same step numbers for the same role.
+ */
+export function getModeColor(color: PaletteColor, mode: ColorMode): PaletteColor {
+  const { modes, ...base } = color;
+  const hex = mode === 'light' ? undefined : modes?.[mode];
+  if (!hex) {
+    return base;
+  }
+
+  // Only the light value can be wide-gamut
+  const { wideGamut: _wideGamut, ...rest } = base;
+  const modeColor: PaletteColor = { ...rest, hex };
+  if (color.scale) {
+    modeColor.scale = { ...color.scale, baseStep: generateTonalScale(color, color.scale).baseStep };
+  }
+  return modeColor;
+}
+
+/**
+ * Get every color of a palette as it appears in a mode
+ */
+export function getModePalette(colors: PaletteColor[], mode: ColorMode): PaletteColor[] {
+  return colors.map((color) => getModeColor(color, mode));
+}
+
+/**
+ * Copy each alias's hex, alpha, wide-gamut and mode values from the color it references
+ * Chains of aliases are followed; aliases to missing colors or in a cycle keep
+ * their last values.
+ */
+export function resolveAliases(colors: PaletteColor[]): PaletteColor[] {
+  const byId = new Map(colors.map((c) => [c.id, c]));
+
+  const resolve = (color: PaletteColor, seen: Set<string>): PaletteColor => {
+    const target = color.alias ? byId.get(color.alias.id) : undefined;
+    if (!color.alias || !target || seen.has(target.id)) {
+      return color;
+    }
+
+    const source = resolve(target, new Set([...seen, color.id]));
+    const step = color.alias.step;
+    const valueIn = (mode: ColorMode) => {
+      const modeColor = getModeColor(source, mode);
+      const scale = step ? getPaletteScale(modeColor) : null;
+      return scale?.swatches.find((s) => s.step === step)?.hex ?? modeColor.hex;
+    };
+
+    const { modes: _modes, alpha: _alpha, wideGamut: _wideGamut, ...rest } = color;
+    const resolved: PaletteColor = { ...rest, hex: valueIn('light').toUpperCase() };
+    if (source.alpha !== undefined && !step) {
+      resolved.alpha = source.alpha;
+    }
+    if (source.wideGamut && !step) {
+      resolved.wideGamut = source.wideGamut;
+    }
+    for (const mode of getColorModes([source]).filter((m) => m !== 'light')) {
+      resolved.modes = { ...resolved.modes, [mode]: valueIn(mode).toUpperCase() };
+    }
+    return resolved;
+  };
+
+  return colors.map((color) => resolve(color, new Set([color.id])));
+}
+
 /**
  * Calculate contrast between two palette colors
  */
 export function calculatePairContrast(foreground: PaletteColor, background: PaletteColor): number {
-  const fgRgb = hexToRgb(foreground.hex);
-  const bgRgb = hexToRgb(background.hex);
+  const fgRgb = getPaletteColorRgb(foreground);
+  const bgRgb = getPaletteColorRgb(background);
 
   if (!fgRgb || !bgRgb) {
     return 1;
@@ -46,22 +260,44 @@ export function calculatePairContrast(foreground: PaletteColor, background: Pale
   return getContrastRatio(fgRgb, bgRgb);
 }
 
+/**
+ * Calculate the APCA Lc of a foreground palette color on a background palette color
+ */
+export function calculatePairAPCA(foreground: PaletteColor, background: PaletteColor): number {
+  const fgRgb = getPaletteColorRgb(foreground);
+  const bgRgb = getPaletteColorRgb(background);
+
+  if (!fgRgb || !bgRgb) {
+    return 0;
+  }
+
+  return getAPCAContrast(fgRgb, bgRgb);
+}
+
 /**
  * Generate a contrast matrix for all colors in a palette
+ * The WCAG 2.1 ratio is always included; APCA results are added when requested
  */
-export function generateContrastMatrix(colors: PaletteColor[]): ContrastMatrixCell[][] {
+export function generateContrastMatrix(
+  colors: PaletteColor[],
+  algorithm: ContrastAlgorithm = 'wcag'
+): ContrastMatrixCell[][] {
   const matrix: ContrastMatrixCell[][] = [];
 
   for (const bgColor of colors) {
     const row: ContrastMatrixCell[] = [];
     for (const fgColor of colors) {
       const ratio = calculatePairContrast(fgColor, bgColor);
-      row.push({
+      const cell: ContrastMatrixCell = {
         foregroundId: fgColor.id,
         backgroundId: bgColor.id,
         ratio,
         compliance: checkWCAGCompliance(ratio),
-      });
+      };
+      if (algorithm === 'apca') {
+        cell.apca = checkAPCACompliance(calculatePairAPCA(fgColor, bgColor));
+      }
+      row.push(cell);
     }
     matrix.push(row);
   }
@@ -70,38 +306,376 @@ export function generateContrastMatrix(colors: PaletteColor[]): ContrastMatrixCe
 }
 
 /**
- * Export palette as CSS custom properties
+ * Check whether a pairing's requirement is met by a contrast ratio and APCA Lc
+ * The "at size" requirements use the normal or large text threshold that
+ * applies at the pairing's typography (16px regular when unset).
+ */
+export function meetsPairingRequirement(ratio: number, lc: number, pairing: PalettePairing): boolean {
+  switch (pairing.requirement) {
+    case 'apca':
+      return Math.abs(lc) >= (pairing.apcaLc ?? APCA_THRESHOLDS.bodyText);
+    case 'textAA':
+    case 'textAAA':
+      return checkTextCompliance(ratio, pairing.typography ?? DEFAULT_TYPOGRAPHY, {
+        level: pairing.requirement === 'textAAA' ? 'AAA' : 'AA',
+      }).passes;
+    default:
+      return checkWCAGCompliance(ratio)[pairing.requirement];
+  }
+}
+
+/**
+ * Describe a pairing's requirement, e.g. "Normal text AA (4.5:1)", "APCA Lc 60"
+ * or "Text AA at 14pt bold (3:1)"
+ */
+export function describePairingRequirement(pairing: PalettePairing): string {
+  if (pairing.requirement === 'apca') {
+    return `APCA Lc ${pairing.apcaLc ?? APCA_THRESHOLDS.bodyText}`;
+  }
+  if (pairing.requirement === 'textAA' || pairing.requirement === 'textAAA') {
+    const typography = pairing.typography ?? DEFAULT_TYPOGRAPHY;
+    const level = pairing.requirement === 'textAAA' ? 'AAA' : 'AA';
+    const { required } = checkTextCompliance(0, typography, { level });
+    return `Text ${level} at ${describeTypography(typography)} (${required}:1)`;
+  }
+  const name = PAIRING_REQUIREMENTS.find((r) => r.id === pairing.requirement)?.name ?? pairing.requirement;
+  return pairing.requirement === 'uiComponents' ? name : `${name} (${WCAG_THRESHOLDS[pairing.requirement]}:1)`;
+}
+
+/**
+ * Format the contrast a pairing is judged on, e.g. "4.52:1", "Lc 62" or
+ * "4.52:1, APCA min 16px" for the "at size" requirements
  */
-export function exportAsCSS(colors: PaletteColor[]): string {
-  const lines = [':root {'];
+export function formatPairingValue(result: PairingResult): string {
+  if (result.pairing.requirement === 'apca') return formatAPCAContrast(result.lc);
+  const ratio = formatContrastRatio(result.ratio);
+  if (!result.text?.apca) return ratio;
+  const { minSize } = result.text.apca;
+  return `${ratio}, ${minSize === null ? 'APCA not readable' : `APCA min ${minSize}px`}`;
+}
+
+/**
+ * Check declared pairings against their own requirements in one mode
+ * Pairings whose colors are no longer in the palette are left out.
+ */
+export function checkPairings(
+  colors: PaletteColor[],
+  pairings: PalettePairing[],
+  mode: ColorMode = 'light'
+): PairingResult[] {
+  const byId = new Map(getModePalette(colors, mode).map((c) => [c.id, c]));
+  const results: PairingResult[] = [];
+
+  for (const pairing of pairings) {
+    const foreground = byId.get(pairing.foregroundId);
+    const background = byId.get(pairing.backgroundId);
+    if (!foreground || !background) continue;
+
+    const ratio = calculatePairContrast(foreground, background);
+    const lc = calculatePairAPCA(foreground, background);
+    const passes = meetsPairingRequirement(ratio, lc, pairing);
+    const result: PairingResult = { pairing, foreground, background, ratio, lc, passes };
+    if (pairing.requirement === 'textAA' || pairing.requirement === 'textAAA') {
+      result.text = checkTextCompliance(ratio, pairing.typography ?? DEFAULT_TYPOGRAPHY, {
+        level: pairing.requirement === 'textAAA' ? 'AAA' : 'AA',
+        lc,
+      });
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Naming styles for exported keys and code identifiers
+ */
+export type NameStyle = 'kebab' | 'snake' | 'camel' | 'pascal';
+
+// Keywords in Swift, Kotlin, Dart or C# that cannot be used as a property name
+const RESERVED_NAMES = new Set([
+  'as', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extension',
+  'false', 'final', 'for', 'fun', 'func', 'if', 'import', 'in', 'init', 'interface', 'internal', 'is', 'let',
+  'new', 'null', 'object', 'operator', 'override', 'private', 'protocol', 'public', 'return', 'self', 'static',
+  'struct', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typealias', 'val', 'var', 'void', 'when', 'while',
+]);
+
+/**
+ * Turn a name into an export key or code identifier
+ * Names split into lowercase words on anything but ASCII letters and digits.
+ * Kebab and snake case are keys and keep the words as they are; camel and
+ * Pascal case are identifiers, so a leading digit, an empty name or a keyword
+ * gets `color` added.
+ */
+export function formatName(name: string, style: NameStyle): string {
+  const words = name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (style === 'kebab' || style === 'snake') {
+    return words.join(style === 'kebab' ? '-' : '_');
+  }
+
+  if (words.length === 0 || /^[0-9]/.test(words[0])) {
+    words.unshift('color');
+  }
+  const identifier = words
+    .map((word, i) => (i === 0 && style === 'camel' ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  return RESERVED_NAMES.has(identifier) ? `${identifier}Color` : identifier;
+}
+
+/**
+ * Turn a color name into an export key or code identifier
+ */
+export function getColorKey(color: PaletteColor, style: NameStyle): string {
+  return formatName(color.name, style);
+}
+
+/**
+ * Get the token path of a color: its group segments, then its key
+ * A key that repeats the group, such as `text-primary` in group `text`, drops
+ * the prefix so the token reads `text.primary`.
+ */
+export function getTokenPath(color: PaletteColor): string[] {
+  const key = getColorKey(color, 'kebab');
+  const group = (color.group ?? '').split('.').filter(Boolean);
+  const prefix = group.length > 0 ? `${group.join('-')}-` : '';
+  return [...group, key.startsWith(prefix) && key.length > prefix.length ? key.slice(prefix.length) : key];
+}
+
+/**
+ * Get the token path an alias points to, or null when it cannot be written as a reference
+ * Aliases with a tonal scale of their own are exported as values.
+ */
+function getAliasPath(colors: PaletteColor[], color: PaletteColor): string[] | null {
+  const target = color.alias ? colors.find((c) => c.id === color.alias!.id) : undefined;
+  if (!target || color.scale) {
+    return null;
+  }
+
+  const scale = getPaletteScale(target);
+  if (scale) {
+    return [...getTokenPath(target), String(color.alias!.step ?? scale.baseStep)];
+  }
+  return color.alias!.step ? null : getTokenPath(target);
+}
+
+/**
+ * Set a value at a path in nested groups
+ */
+function setTokenAt(root: Record<string, unknown>, path: string[], value: unknown): void {
+  let node = root;
+  for (const segment of path.slice(0, -1)) {
+    node[segment] = node[segment] && typeof node[segment] === 'object' ? node[segment] : {};
+    node = node[segment] as Record<string, unknown>;
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/**
+ * A DTCG 2025 color value: components from 0 to 1, alpha and a hex fallback
+ * Wide-gamut colors keep their own color space, with the sRGB hex as fallback.
+ */
+function toColorObject(
+  hex: string,
+  alpha: number = 1,
+  wideGamut?: WideGamutColor
+): { colorSpace: string; components: number[]; alpha: number; hex: string } {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  return {
+    colorSpace: wideGamut?.space ?? 'srgb',
+    components: (wideGamut?.components ?? [rgb.r / 255, rgb.g / 255, rgb.b / 255]).map((v) => Math.round(v * 10000) / 10000),
+    alpha,
+    hex: rgbToHex({ r: rgb.r, g: rgb.g, b: rgb.b }).toLowerCase(),
+  };
+}
+
+/**
+ * Display P3 components of a wide-gamut color, mapped into P3 when it reaches beyond
+ */
+function toDisplayP3(color: WideGamutColor): Vec3 {
+  return mapWideGamutColor(color, 'display-p3').components;
+}
+
+/**
+ * Pairings as plain records keyed by exported color names
+ */
+function exportPairings(
+  colors: PaletteColor[],
+  pairings: PalettePairing[],
+  style: NameStyle
+): Array<{ foreground: string; background: string; requirement: PairingRequirement; apcaLc?: number; typography?: Typography }> {
+  return checkPairings(colors, pairings).map(({ pairing, foreground, background }) => ({
+    foreground: getColorKey(foreground, style),
+    background: getColorKey(background, style),
+    requirement: pairing.requirement,
+    ...(pairing.requirement === 'apca' ? { apcaLc: pairing.apcaLc ?? APCA_THRESHOLDS.bodyText } : {}),
+    ...(pairing.typography ? { typography: pairing.typography } : {}),
+  }));
+}
+
+/**
+ * Comment lines listing pairings for stylesheet exports
+ * Names lose line breaks and `*` + `/` sequences, which would end the comment early.
+ */
+function getPairingComments(colors: PaletteColor[], pairings: PalettePairing[], open: string, close = ''): string[] {
+  const clean = (name: string) => name.replace(/[\r\n\u2028\u2029]+/g, ' ').replace(/\*\//g, '* /');
+  return checkPairings(colors, pairings).map(
+    ({ pairing, foreground, background }) =>
+      `${open} Pairing: ${clean(foreground.name)} on ${clean(background.name)}, ${describePairingRequirement(pairing)}${close}`
+  );
+}
+
+/**
+ * Find palette color pairs that become hard to tell apart under each CVD type
+ * Every color is simulated for each CVD_TYPES entry (anomalous types at the
+ * current severity) and pairs closer than the threshold in CIEDE2000 are
+ * flagged. Pairs that are already that close with normal vision are reported
+ * once as 'none'. Alpha is ignored, so translucent colors compare as opaque.
+ */
+export function analyzeDistinguishability(
+  colors: PaletteColor[],
+  threshold: number = DISTINGUISHABILITY_THRESHOLD,
+  severity: number = getCVDSeverity()
+): DistinguishabilityIssue[] {
+  const issues: DistinguishabilityIssue[] = [];
+  const opaque = colors.map((color) => hexToRgb(color.hex));
+
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      const first = opaque[i];
+      const second = opaque[j];
+      if (!first || !second) continue;
+
+      const normalDeltaE = getDeltaE2000(first, second);
+      if (normalDeltaE < threshold) {
+        issues.push({ first: colors[i], second: colors[j], cvdType: 'none', deltaE: normalDeltaE, normalDeltaE });
+        continue;
+      }
+
+      for (const type of CVD_TYPES) {
+        const simulatedFirst = hexToRgb(simulateCVD(rgbToHex(first), type.id, severity));
+        const simulatedSecond = hexToRgb(simulateCVD(rgbToHex(second), type.id, severity));
+        if (!simulatedFirst || !simulatedSecond) continue;
+
+        const deltaE = getDeltaE2000(simulatedFirst, simulatedSecond);
+        if (deltaE < threshold) {
+          issues.push({ first: colors[i], second: colors[j], cvdType: type.id, deltaE, normalDeltaE });
+        }
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.deltaE - b.deltaE);
+}
+
+/**
+ * CSS custom property declarations for palette colors
+ */
+function getCSSDeclarations(colors: PaletteColor[], indent: string): string[] {
+  const lines: string[] = [];
 
   for (const color of colors) {
-    const varName = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    lines.push(`  --color-${varName}: ${color.hex};`);
+    const varName = getColorKey(color, 'kebab');
+    const scale = getPaletteScale(color);
+    if (scale) {
+      for (const swatch of scale.swatches) {
+        lines.push(`${indent}--color-${varName}-${swatch.step}: ${swatch.hex};`);
+      }
+      continue;
+    }
+    lines.push(`${indent}--color-${varName}: ${getPaletteColorValue(color)};`);
+  }
+
+  return lines;
+}
+
+/**
+ * CSS custom property declarations for wide-gamut colors, in their own color space
+ * Colors with a tonal scale export their ramp in sRGB and are left out.
+ */
+function getWideGamutDeclarations(colors: PaletteColor[], indent: string): string[] {
+  return colors
+    .filter((color) => color.wideGamut && !color.scale)
+    .map((color) => `${indent}--color-${getColorKey(color, 'kebab')}: ${formatWideGamutColor({ ...color.wideGamut!, alpha: color.alpha })};`);
+}
+
+/**
+ * Export palette as CSS custom properties
+ * Dark and high contrast values override the light ones inside
+ * `prefers-color-scheme` / `prefers-contrast` media queries, or under `.dark`
+ * and `.high-contrast` classes with the class strategy. Wide-gamut colors are
+ * declared as their sRGB fallback, then as `color()` inside an `@supports`
+ * block for browsers that can show them.
+ */
+export function exportAsCSS(
+  colors: PaletteColor[],
+  pairings: PalettePairing[] = [],
+  modeStrategy: CSSModeStrategy = 'media'
+): string {
+  const lines = [...getPairingComments(colors, pairings, '/*', ' */'), ':root {', ...getCSSDeclarations(colors, '  '), '}'];
+
+  const wideGamut = getWideGamutDeclarations(colors, '    ');
+  if (wideGamut.length > 0) {
+    lines.push('', '@supports (color: color(display-p3 1 1 1)) {', '  :root {', ...wideGamut, '  }', '}');
+  }
+
+  const selectors: Record<Exclude<ColorMode, 'light'>, { media: string; className: string }> = {
+    dark: { media: '(prefers-color-scheme: dark)', className: '.dark' },
+    highContrast: { media: '(prefers-contrast: more)', className: '.high-contrast' },
+  };
+
+  for (const mode of getColorModes(colors)) {
+    if (mode === 'light') continue;
+    const overrides = getModePalette(colors.filter((c) => c.modes?.[mode] !== undefined), mode);
+    lines.push('');
+    if (modeStrategy === 'class') {
+      lines.push(`${selectors[mode].className} {`, ...getCSSDeclarations(overrides, '  '), '}');
+    } else {
+      lines.push(`@media ${selectors[mode].media} {`, '  :root {', ...getCSSDeclarations(overrides, '    '), '  }', '}');
+    }
   }
 
-  lines.push('}');
   return lines.join('\n');
 }
 
 /**
  * Export palette as JSON
  */
-export function exportAsJSON(colors: PaletteColor[]): string {
-  const palette: Record<string, string> = {};
+export function exportAsJSON(colors: PaletteColor[], pairings: PalettePairing[] = []): string {
+  const toRecord = (modeColors: PaletteColor[]) => {
+    const palette: Record<string, string | Record<string, string>> = {};
 
-  for (const color of colors) {
-    const key = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '_')
-      .replace(/^_|_$/g, '');
-    palette[key] = color.hex;
+    for (const color of modeColors) {
+      const key = getColorKey(color, 'snake');
+      const scale = getPaletteScale(color);
+      if (scale) {
+        const group: Record<string, string> = {};
+        for (const swatch of scale.swatches) {
+          group[swatch.step] = swatch.hex;
+        }
+        palette[key] = group;
+        continue;
+      }
+      palette[key] = getPaletteColorValue(color);
+    }
+
+    return palette;
+  };
+
+  const output: Record<string, unknown> = { colors: toRecord(colors) };
+
+  // Other modes list only the colors that override the light value
+  const modes = getColorModes(colors).filter((mode) => mode !== 'light');
+  if (modes.length > 0) {
+    output.modes = Object.fromEntries(
+      modes.map((mode) => [mode, toRecord(getModePalette(colors.filter((c) => c.modes?.[mode] !== undefined), mode))])
+    );
   }
 
-  return JSON.stringify({ colors: palette }, null, 2);
+  const declared = exportPairings(colors, pairings, 'snake');
+  if (declared.length > 0) {
+    output.pairings = declared;
+  }
+  return JSON.stringify(output, null, 2);
 }
 
 /**
@@ -111,11 +685,17 @@ export function exportAsTailwind(colors: PaletteColor[]): string {
   const lines = ['module.exports = {', '  theme: {', '    extend: {', '      colors: {'];
 
   for (const color of colors) {
-    const key = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    lines.push(`        '${key}': '${color.hex}',`);
+    const key = getColorKey(color, 'kebab');
+    const scale = getPaletteScale(color);
+    if (scale) {
+      lines.push(`        '${key}': {`);
+      for (const swatch of scale.swatches) {
+        lines.push(`          ${swatch.step}: '${swatch.hex}',`);
+      }
+      lines.push('        },');
+      continue;
+    }
+    lines.push(`        '${key}': '${getPaletteColorValue(color)}',`);
   }
 
   lines.push('      },', '    },', '  },', '};');
@@ -125,26 +705,36 @@ export function exportAsTailwind(colors: PaletteColor[]): string {
 /**
  * Export palette as SCSS variables
  */
-export function exportAsSCSS(colors: PaletteColor[]): string {
-  const lines: string[] = [];
+export function exportAsSCSS(colors: PaletteColor[], pairings: PalettePairing[] = []): string {
+  const lines: string[] = getPairingComments(colors, pairings, '//');
 
   for (const color of colors) {
-    const varName = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    lines.push(`$color-${varName}: ${color.hex};`);
+    const varName = getColorKey(color, 'kebab');
+    const scale = getPaletteScale(color);
+    if (scale) {
+      for (const swatch of scale.swatches) {
+        lines.push(`$color-${varName}-${swatch.step}: ${swatch.hex};`);
+      }
+      continue;
+    }
+    lines.push(`$color-${varName}: ${getPaletteColorValue(color)};`);
   }
 
   // Also create a map for easy iteration
   lines.push('');
   lines.push('$colors: (');
   for (const color of colors) {
-    const key = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    lines.push(`  '${key}': ${color.hex},`);
+    const key = getColorKey(color, 'kebab');
+    const scale = getPaletteScale(color);
+    if (scale) {
+      lines.push(`  '${key}': (`);
+      for (const swatch of scale.swatches) {
+        lines.push(`    ${swatch.step}: ${swatch.hex},`);
+      }
+      lines.push('  ),');
+      continue;
+    }
+    lines.push(`  '${key}': ${getPaletteColorValue(color)},`);
   }
   lines.push(');');
 
@@ -153,31 +743,258 @@ export function exportAsSCSS(colors: PaletteColor[]): string {
 
 /**
  * Export palette as Design Tokens (DTCG format)
- * Compatible with Figma Tokens, Style Dictionary, and other tools
+ * Values are 2025 color objects, compatible with Style Dictionary and other
+ * DTCG tools. Groups nest the tokens and aliases are written as references
+ * such as `{color.brand.500}`. Colors with dark or high contrast values list
+ * every mode under `$extensions['com.huepass.modes']`.
  */
-export function exportAsDesignTokens(colors: PaletteColor[]): string {
-  const tokens: Record<string, unknown> = {
-    color: {}
-  };
+export function exportAsDesignTokens(colors: PaletteColor[], pairings: PalettePairing[] = []): string {
+  const color: Record<string, unknown> = {};
+  const tokens: Record<string, unknown> = { color };
 
-  for (const color of colors) {
-    const key = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-
-    (tokens.color as Record<string, unknown>)[key] = {
-      $type: 'color',
-      $value: color.hex,
-      $description: color.name
+  for (const paletteColor of colors) {
+    const path = getTokenPath(paletteColor);
+    const modes = getColorModes([paletteColor]);
+    const alpha = paletteColor.alpha ?? 1;
+    const withModes = (token: Record<string, unknown>, value: (modeColor: PaletteColor) => string) =>
+      modes.length > 1
+        ? {
+            ...token,
+            $extensions: {
+              'com.huepass.modes': Object.fromEntries(
+                modes.map((mode) => {
+                  const modeColor = getModeColor(paletteColor, mode);
+                  return [mode, toColorObject(value(modeColor), alpha, modeColor.wideGamut)];
+                })
+              ),
+            },
+          }
+        : token;
+
+    const aliasPath = getAliasPath(colors, paletteColor);
+    if (aliasPath) {
+      setTokenAt(color, path, { $type: 'color', $value: `{color.${aliasPath.join('.')}}`, $description: paletteColor.name });
+      continue;
+    }
+
+    const scale = getPaletteScale(paletteColor);
+    if (scale) {
+      const group: Record<string, unknown> = {};
+      for (const swatch of scale.swatches) {
+        group[swatch.step] = withModes(
+          {
+            $type: 'color',
+            $value: toColorObject(swatch.hex),
+            $description: `${paletteColor.name} ${swatch.step}`
+          },
+          (modeColor) => getPaletteScale(modeColor)!.swatches.find((s) => s.step === swatch.step)!.hex
+        );
+      }
+      setTokenAt(color, path, group);
+      continue;
+    }
+
+    setTokenAt(
+      color,
+      path,
+      withModes(
+        {
+          $type: 'color',
+          $value: toColorObject(paletteColor.hex, alpha, paletteColor.wideGamut),
+          $description: paletteColor.name
+        },
+        (modeColor) => modeColor.hex
+      )
+    );
+  }
+
+  // Pairings reference token paths and live in a vendor extension
+  const declared = exportPairings(colors, pairings, 'kebab');
+  if (declared.length > 0) {
+    const pathOf = (key: string) => getTokenPath(colors.find((c) => getColorKey(c, 'kebab') === key)!).join('.');
+    tokens.$extensions = {
+      'com.huepass.pairings': declared.map((p) => ({ ...p, foreground: `{color.${pathOf(p.foreground)}}`, background: `{color.${pathOf(p.background)}}` })),
     };
   }
 
   return JSON.stringify(tokens, null, 2);
 }
 
+/**
+ * Export palette as a Tokens Studio multi-set file
+ * The `global` set holds every color; `dark` and `highContrast` sets hold only
+ * the colors that override it, and `$themes` turns each mode's sets on in
+ * order. Aliases stay references, so they follow their target in every theme.
+ */
+export function exportAsTokensStudio(colors: PaletteColor[]): string {
+  const modes = getColorModes(colors);
+  const sets: Record<string, Record<string, unknown>> = Object.fromEntries(
+    modes.map((mode) => [mode === 'light' ? 'global' : mode, {}])
+  );
+  const token = (hex: string, alpha: number, description: string) => ({
+    value: getPaletteColorValue({ id: '', name: '', hex, alpha }),
+    type: 'color',
+    description,
+  });
+
+  for (const color of colors) {
+    const path = ['color', ...getTokenPath(color)];
+    const aliasPath = getAliasPath(colors, color);
+    if (aliasPath) {
+      setTokenAt(sets.global, path, { value: `{color.${aliasPath.join('.')}}`, type: 'color', description: color.name });
+      continue;
+    }
+
+    for (const mode of modes) {
+      if (mode !== 'light' && color.modes?.[mode] === undefined) continue;
+      const modeColor = getModeColor(color, mode);
+      const set = sets[mode === 'light' ? 'global' : mode];
+      const scale = getPaletteScale(modeColor);
+
+      if (scale) {
+        for (const swatch of scale.swatches) {
+          setTokenAt(set, [...path, String(swatch.step)], token(swatch.hex, 1, `${color.name} ${swatch.step}`));
+        }
+      } else {
+        setTokenAt(set, path, token(modeColor.hex, color.alpha ?? 1, color.name));
+      }
+    }
+  }
+
+  const setNames = Object.keys(sets);
+  const output: Record<string, unknown> = { ...sets };
+  output.$themes = modes.map((mode) => ({
+    id: mode,
+    name: COLOR_MODES.find((m) => m.id === mode)!.name,
+    selectedTokenSets: Object.fromEntries(
+      setNames.filter((set) => set === 'global' || set === mode).map((set) => [set, 'enabled'])
+    ),
+  }));
+  output.$metadata = { tokenSetOrder: setNames };
+
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Export palette as Figma Variables
+ * Follows the shape of the REST API's local variables response and the plugin
+ * API objects: one `Colors` collection with a mode per color mode, variables
+ * named by token path (`brand/500`) and RGBA values from 0 to 1. Aliases
+ * become `VARIABLE_ALIAS` values.
+ */
+export function exportAsFigmaVariables(colors: PaletteColor[]): string {
+  const collectionId = 'VariableCollectionId:1:0';
+  const modes = getColorModes(colors).map((mode, index) => ({
+    modeId: `1:${index}`,
+    name: COLOR_MODES.find((m) => m.id === mode)!.name,
+    mode,
+  }));
+  const variables: Record<string, Record<string, unknown>> = {};
+  const idsByPath = new Map<string, string>();
+
+  const rgba = (hex: string, alpha: number) => {
+    const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+    const round = (v: number) => Math.round((v / 255) * 10000) / 10000;
+    return { r: round(rgb.r), g: round(rgb.g), b: round(rgb.b), a: alpha };
+  };
+  const addVariable = (path: string[], description: string, valueIn: (mode: ColorMode) => unknown) => {
+    const id = `VariableID:1:${Object.keys(variables).length + 1}`;
+    idsByPath.set(path.join('/'), id);
+    variables[id] = {
+      id,
+      name: path.join('/'),
+      key: path.join('-'),
+      variableCollectionId: collectionId,
+      resolvedType: 'COLOR',
+      description,
+      valuesByMode: Object.fromEntries(modes.map(({ modeId, mode }) => [modeId, valueIn(mode)])),
+      scopes: ['ALL_SCOPES'],
+      hiddenFromPublishing: false,
+      codeSyntax: { WEB: `var(--color-${path.join('-')})` },
+    };
+  };
+
+  // Aliases are added last so every target already has an id
+  const aliases = colors.filter((c) => getAliasPath(colors, c));
+  for (const color of colors.filter((c) => !aliases.includes(c))) {
+    const path = getTokenPath(color);
+    const scale = getPaletteScale(color);
+    if (scale) {
+      for (const swatch of scale.swatches) {
+        addVariable([...path, String(swatch.step)], `${color.name} ${swatch.step}`, (mode) =>
+          rgba(getPaletteScale(getModeColor(color, mode))!.swatches.find((s) => s.step === swatch.step)!.hex, 1)
+        );
+      }
+      continue;
+    }
+    addVariable(path, color.name, (mode) => rgba(getModeColor(color, mode).hex, color.alpha ?? 1));
+  }
+  for (const color of aliases) {
+    const targetId = idsByPath.get(getAliasPath(colors, color)!.join('/'));
+    addVariable(getTokenPath(color), color.name, (mode) =>
+      targetId ? { type: 'VARIABLE_ALIAS', id: targetId } : rgba(getModeColor(color, mode).hex, color.alpha ?? 1)
+    );
+  }
+
+  return JSON.stringify(
+    {
+      meta: {
+        variableCollections: {
+          [collectionId]: {
+            id: collectionId,
+            name: 'Colors',
+            key: 'colors',
+            modes: modes.map(({ modeId, name }) => ({ modeId, name })),
+            defaultModeId: modes[0].modeId,
+            variableIds: Object.keys(variables),
+            hiddenFromPublishing: false,
+          },
+        },
+        variables,
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Exported swatches of a color with the hex of each mode
+ * A color with a tonal scale gives one swatch per step.
+ */
+function getModeSwatches(color: PaletteColor): ModeSwatch[] {
+  const modes = getColorModes([color]);
+  const scale = getPaletteScale(color);
+  if (!scale) {
+    return [{
+      values: Object.fromEntries(modes.map((mode) => [mode, getModeColor(color, mode).hex])),
+      alpha: color.alpha ?? 1,
+      wideGamut: color.wideGamut,
+    }];
+  }
+
+  const modeScales = modes.map((mode) => [mode, getPaletteScale(getModeColor(color, mode))!] as const);
+  return scale.swatches.map((swatch) => ({
+    step: swatch.step,
+    values: Object.fromEntries(
+      modeScales.map(([mode, modeScale]) => [mode, modeScale.swatches.find((s) => s.step === swatch.step)!.hex])
+    ),
+    alpha: 1,
+  }));
+}
+
+/**
+ * Hex as an alpha-first AARRGGBB value, as Kotlin, Dart and XAML write colors
+ */
+function toARGB(hex: string, alpha: number): string {
+  return `${Math.round(alpha * 255).toString(16).padStart(2, '0')}${hex.replace('#', '')}`.toUpperCase();
+}
+
 /**
  * Export palette as Swift UIColor extensions (iOS)
+ * Colors with dark or high contrast values become dynamic providers that
+ * follow the trait collection's interface style and accessibility contrast.
+ * Wide-gamut light values use the Display P3 initializer.
  */
 export function exportAsSwift(colors: PaletteColor[]): string {
   const lines = [
@@ -187,18 +1004,42 @@ export function exportAsSwift(colors: PaletteColor[]): string {
     '    struct Palette {'
   ];
 
-  for (const color of colors) {
-    const propertyName = color.name
-      .replace(/[^a-zA-Z0-9]+(.)/g, (_, chr) => chr.toUpperCase())
-      .replace(/[^a-zA-Z0-9]/g, '')
-      .replace(/^./, (chr) => chr.toLowerCase());
-
-    const hex = color.hex.replace('#', '');
+  const initializer = (hexValue: string, alpha: number) => {
+    const hex = hexValue.replace('#', '');
     const r = parseInt(hex.substring(0, 2), 16);
     const g = parseInt(hex.substring(2, 4), 16);
     const b = parseInt(hex.substring(4, 6), 16);
 
-    lines.push(`        static let ${propertyName} = UIColor(red: ${(r / 255).toFixed(3)}, green: ${(g / 255).toFixed(3)}, blue: ${(b / 255).toFixed(3)}, alpha: 1.0)`);
+    return `UIColor(red: ${(r / 255).toFixed(3)}, green: ${(g / 255).toFixed(3)}, blue: ${(b / 255).toFixed(3)}, alpha: ${alpha === 1 ? '1.0' : alpha.toFixed(3)})`;
+  };
+
+  const p3Initializer = (wideGamut: WideGamutColor, alpha: number) => {
+    const [r, g, b] = toDisplayP3(wideGamut);
+    return `UIColor(displayP3Red: ${r.toFixed(3)}, green: ${g.toFixed(3)}, blue: ${b.toFixed(3)}, alpha: ${alpha === 1 ? '1.0' : alpha.toFixed(3)})`;
+  };
+
+  const pushColor = (propertyName: string, swatch: ModeSwatch) => {
+    const { values, alpha } = swatch;
+    const light = swatch.wideGamut ? p3Initializer(swatch.wideGamut, alpha) : initializer(values.light!, alpha);
+    if (!values.dark && !values.highContrast) {
+      lines.push(`        static let ${propertyName} = ${light}`);
+      return;
+    }
+
+    lines.push(`        static let ${propertyName} = UIColor { traits in`);
+    if (values.highContrast) {
+      lines.push(`            if traits.accessibilityContrast == .high { return ${initializer(values.highContrast, alpha)} }`);
+    }
+    if (values.dark) {
+      lines.push(`            if traits.userInterfaceStyle == .dark { return ${initializer(values.dark, alpha)} }`);
+    }
+    lines.push(`            return ${light}`, '        }');
+  };
+
+  for (const color of colors) {
+    for (const swatch of getModeSwatches(color)) {
+      pushColor(`${getColorKey(color, 'camel')}${swatch.step ?? ''}`, swatch);
+    }
   }
 
   lines.push('    }', '}');
@@ -207,99 +1048,624 @@ export function exportAsSwift(colors: PaletteColor[]): string {
 
 /**
  * Export palette as Android XML colors
+ * Dark values follow as a second file for `values-night`. Android has no
+ * resource qualifier for high contrast, so those values are not exported.
+ * Color resources are sRGB only, so wide-gamut colors get their sRGB fallback
+ * there, and a Kotlin `WideGamutColors` object follows with their Display P3
+ * values built through `Color.valueOf` (API 26+).
  */
 export function exportAsAndroidXML(colors: PaletteColor[]): string {
+  const toResources = (modeColors: PaletteColor[]) => {
+    const lines = ['<resources>'];
+
+    for (const color of modeColors) {
+      const name = getColorKey(color, 'snake');
+      const scale = getPaletteScale(color);
+      if (scale) {
+        for (const swatch of scale.swatches) {
+          lines.push(`    <color name="${name}_${swatch.step}">${swatch.hex}</color>`);
+        }
+        continue;
+      }
+      // Android expects alpha first: #AARRGGBB
+      const value = getPaletteColorValue(color);
+      const androidValue = value.length === 9 ? `#${value.slice(7)}${value.slice(1, 7)}` : value;
+      if (color.wideGamut) {
+        lines.push(`    <!-- sRGB fallback; Display P3 value in WideGamutColors.${getColorKey(color, 'camel')} -->`);
+      }
+      lines.push(`    <color name="${name}">${androidValue}</color>`);
+    }
+
+    lines.push('</resources>');
+    return lines;
+  };
+
+  const header = '<?xml version="1.0" encoding="utf-8"?>';
+  const night = colors.filter((c) => c.modes?.dark !== undefined);
+  const wide = colors.filter((c) => c.wideGamut && !c.scale);
+  if (night.length === 0 && wide.length === 0) {
+    return [header, ...toResources(colors)].join('\n');
+  }
+
+  const lines = [header, '<!-- res/values/colors.xml -->', ...toResources(colors)];
+  if (night.length > 0) {
+    lines.push('', header, '<!-- res/values-night/colors.xml -->', ...toResources(getModePalette(night, 'dark')));
+  }
+  if (wide.length > 0) {
+    lines.push(
+      '',
+      '// WideGamutColors.kt (API 26+)',
+      'import android.graphics.Color',
+      'import android.graphics.ColorSpace',
+      '',
+      'object WideGamutColors {',
+      '    private val displayP3 = ColorSpace.get(ColorSpace.Named.DISPLAY_P3)',
+      ...wide.map((color) => {
+        const [r, g, b] = toDisplayP3(color.wideGamut!).map((c) => `${c.toFixed(4)}f`);
+        return `    val ${getColorKey(color, 'camel')}: Color = Color.valueOf(${r}, ${g}, ${b}, ${(color.alpha ?? 1).toFixed(3)}f, displayP3)`;
+      }),
+      '}'
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Export palette as a SwiftUI Color extension with an Xcode asset catalog
+ * Each color becomes a `.colorset` whose dark and high contrast values are
+ * appearance variants, so SwiftUI picks the right one by itself. The
+ * extension reads the colors from the catalog by name under `Color.Palette`,
+ * clear of built-in colors such as `Color.primary`. Wide-gamut light values
+ * are stored in the catalog's Display P3 color space.
+ */
+export function exportAsSwiftUI(colors: PaletteColor[]): string {
+  const swatches = colors.flatMap((color) =>
+    getModeSwatches(color).map((swatch) => ({
+      ...swatch,
+      name: `${getColorKey(color, 'pascal')}${swatch.step ?? ''}`,
+      property: `${getColorKey(color, 'camel')}${swatch.step ?? ''}`,
+    }))
+  );
+  const info = { author: 'xcode', version: 1 };
+  const appearances: Partial<Record<ColorMode, { appearance: string; value: string }>> = {
+    dark: { appearance: 'luminosity', value: 'dark' },
+    highContrast: { appearance: 'contrast', value: 'high' },
+  };
+
+  const colorEntry = (hex: string, alpha: number, wideGamut?: WideGamutColor) => {
+    if (wideGamut) {
+      const [r, g, b] = toDisplayP3(wideGamut).map((c) => c.toFixed(3));
+      return { 'color-space': 'display-p3', components: { alpha: alpha.toFixed(3), blue: b, green: g, red: r } };
+    }
+    const [r, g, b] = [1, 3, 5].map((i) => `0x${hex.slice(i, i + 2).toUpperCase()}`);
+    return { 'color-space': 'srgb', components: { alpha: alpha.toFixed(3), blue: b, green: g, red: r } };
+  };
+
   const lines = [
-    '<?xml version="1.0" encoding="utf-8"?>',
-    '<resources>'
+    '// Colors.swift',
+    'import SwiftUI',
+    '',
+    'extension Color {',
+    '    struct Palette {',
+    ...swatches.map((swatch) => `        static let ${swatch.property} = Color("${swatch.name}")`),
+    '    }',
+    '}',
+    '',
+    '// Colors.xcassets/Contents.json',
+    JSON.stringify({ info }, null, 2),
   ];
 
-  for (const color of colors) {
-    const name = color.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '_')
-      .replace(/^_|_$/g, '');
-    lines.push(`    <color name="${name}">${color.hex}</color>`);
+  for (const swatch of swatches) {
+    const variants = COLOR_MODES.filter((mode) => swatch.values[mode.id]).map((mode) => ({
+      ...(appearances[mode.id] ? { appearances: [appearances[mode.id]] } : {}),
+      color: colorEntry(swatch.values[mode.id]!, swatch.alpha, mode.id === 'light' ? swatch.wideGamut : undefined),
+      idiom: 'universal',
+    }));
+    lines.push('', `// Colors.xcassets/${swatch.name}.colorset/Contents.json`, JSON.stringify({ colors: variants, info }, null, 2));
   }
 
-  lines.push('</resources>');
   return lines.join('\n');
 }
 
+// Material 3 color scheme roles, matched against palette color names
+const MATERIAL_ROLES = [
+  'primary', 'onPrimary', 'primaryContainer', 'onPrimaryContainer', 'inversePrimary',
+  'secondary', 'onSecondary', 'secondaryContainer', 'onSecondaryContainer',
+  'tertiary', 'onTertiary', 'tertiaryContainer', 'onTertiaryContainer',
+  'background', 'onBackground', 'surface', 'onSurface', 'surfaceVariant', 'onSurfaceVariant',
+  'surfaceTint', 'inverseSurface', 'inverseOnSurface',
+  'error', 'onError', 'errorContainer', 'onErrorContainer', 'outline', 'outlineVariant', 'scrim',
+];
+
 /**
- * Export contrast matrix as a formatted report
+ * Export palette as Jetpack Compose colors with a Material 3 theme
+ * Dark values get a `Dark` suffix. Colors named after a color scheme role,
+ * such as "Primary" or "On Surface", fill that role in `lightColorScheme` and
+ * `darkColorScheme`; the rest are left for you to map. Compose has no high
+ * contrast theme, so those values are not exported. Wide-gamut light values
+ * are built in the Display P3 color space.
  */
-export function exportContrastReport(colors: PaletteColor[], matrix: ContrastMatrixCell[][]): string {
-  const lines = ['# Color Contrast Report', '', '## Palette Colors', ''];
+export function exportAsCompose(colors: PaletteColor[]): string {
+  const lines = ['// ui/theme/Color.kt', 'import androidx.compose.ui.graphics.Color'];
+  if (colors.some((color) => getModeSwatches(color).some((swatch) => swatch.wideGamut))) {
+    lines.push('import androidx.compose.ui.graphics.colorspace.ColorSpaces');
+  }
+  lines.push('');
+  const roles: Array<{ role: string; light: string; dark: string }> = [];
 
   for (const color of colors) {
-    lines.push(`- **${color.name}**: ${color.hex}`);
+    for (const swatch of getModeSwatches(color)) {
+      const name = `${getColorKey(color, 'pascal')}${swatch.step ?? ''}`;
+      if (swatch.wideGamut) {
+        const [r, g, b] = toDisplayP3(swatch.wideGamut).map((c) => `${c.toFixed(4)}f`);
+        lines.push(`val ${name} = Color(${r}, ${g}, ${b}, ${swatch.alpha.toFixed(3)}f, ColorSpaces.DisplayP3)`);
+      } else {
+        lines.push(`val ${name} = Color(0x${toARGB(swatch.values.light!, swatch.alpha)})`);
+      }
+      if (swatch.values.dark) {
+        lines.push(`val ${name}Dark = Color(0x${toARGB(swatch.values.dark, swatch.alpha)})`);
+      }
+
+      const role = formatName(color.name, 'camel');
+      if (!swatch.step && MATERIAL_ROLES.includes(role)) {
+        roles.push({ role, light: name, dark: swatch.values.dark ? `${name}Dark` : name });
+      }
+    }
   }
 
-  lines.push('', '## Contrast Matrix', '');
+  const scheme = (builder: string, mode: 'light' | 'dark') => [
+    `private val ${mode === 'light' ? 'Light' : 'Dark'}ColorScheme = ${builder}(`,
+    ...(roles.length > 0
+      ? roles.map((r) => `    ${r.role} = ${r[mode]},`)
+      : ['    // Map palette colors to roles, e.g. primary = Brand']),
+    ')',
+  ];
 
-  // Header row
-  const headerCells = ['Background \\ Foreground', ...colors.map((c) => c.name)];
-  lines.push('| ' + headerCells.join(' | ') + ' |');
-  lines.push('| ' + headerCells.map(() => '---').join(' | ') + ' |');
+  lines.push(
+    '',
+    '// ui/theme/Theme.kt',
+    'import androidx.compose.foundation.isSystemInDarkTheme',
+    'import androidx.compose.material3.MaterialTheme',
+    'import androidx.compose.material3.darkColorScheme',
+    'import androidx.compose.material3.lightColorScheme',
+    'import androidx.compose.runtime.Composable',
+    '',
+    ...scheme('lightColorScheme', 'light'),
+    '',
+    ...scheme('darkColorScheme', 'dark'),
+    '',
+    '@Composable',
+    'fun PaletteTheme(',
+    '    darkTheme: Boolean = isSystemInDarkTheme(),',
+    '    content: @Composable () -> Unit',
+    ') {',
+    '    MaterialTheme(',
+    '        colorScheme = if (darkTheme) DarkColorScheme else LightColorScheme,',
+    '        content = content',
+    '    )',
+    '}'
+  );
 
-  // Data rows
-  for (let i = 0; i < colors.length; i++) {
-    const bgColor = colors[i];
-    const rowCells = [bgColor.name];
+  return lines.join('\n');
+}
 
-    for (let j = 0; j < colors.length; j++) {
-      const cell = matrix[i][j];
-      const ratioStr = formatContrastRatio(cell.ratio);
-      const status = cell.compliance.normalTextAA ? 'Pass' : 'Fail';
-      rowCells.push(`${ratioStr} (${status})`);
+/**
+ * Export palette as Flutter color constants with a theme extension
+ * `PaletteColors` holds every value, with `Dark` and `HighContrast` suffixes
+ * for the other modes. `PaletteTheme` is a `ThemeExtension` with an instance
+ * per mode; add one to `ThemeData.extensions` and read it with
+ * `Theme.of(context).extension<PaletteTheme>()`.
+ */
+export function exportAsFlutter(colors: PaletteColor[]): string {
+  const swatches = colors.flatMap((color) =>
+    getModeSwatches(color).map((swatch) => ({ ...swatch, name: `${getColorKey(color, 'camel')}${swatch.step ?? ''}` }))
+  );
+  const modes = getColorModes(colors);
+  const suffixes: Record<ColorMode, string> = { light: '', dark: 'Dark', highContrast: 'HighContrast' };
+  const modeValue = (swatch: (typeof swatches)[number], mode: ColorMode) =>
+    `PaletteColors.${swatch.name}${swatch.values[mode] ? suffixes[mode] : ''}`;
+
+  const lines = ["import 'package:flutter/material.dart';", '', 'abstract final class PaletteColors {'];
+  for (const swatch of swatches) {
+    for (const mode of COLOR_MODES) {
+      const hex = swatch.values[mode.id];
+      if (hex) {
+        lines.push(`  static const Color ${swatch.name}${suffixes[mode.id]} = Color(0x${toARGB(hex, swatch.alpha)});`);
+      }
     }
+  }
+  lines.push('}', '');
+
+  lines.push('@immutable', 'class PaletteTheme extends ThemeExtension<PaletteTheme> {', '  const PaletteTheme({');
+  lines.push(...swatches.map((swatch) => `    required this.${swatch.name},`), '  });', '');
+  lines.push(...swatches.map((swatch) => `  final Color ${swatch.name};`));
+
+  for (const mode of modes) {
+    lines.push('', `  static const ${mode} = PaletteTheme(`);
+    lines.push(...swatches.map((swatch) => `    ${swatch.name}: ${modeValue(swatch, mode)},`), '  );');
+  }
+
+  lines.push(
+    '',
+    '  @override',
+    `  PaletteTheme copyWith({${swatches.map((swatch) => `Color? ${swatch.name}`).join(', ')}}) {`,
+    '    return PaletteTheme(',
+    ...swatches.map((swatch) => `      ${swatch.name}: ${swatch.name} ?? this.${swatch.name},`),
+    '    );',
+    '  }',
+    '',
+    '  @override',
+    '  PaletteTheme lerp(PaletteTheme? other, double t) {',
+    '    if (other is! PaletteTheme) return this;',
+    '    return PaletteTheme(',
+    ...swatches.map((swatch) => `      ${swatch.name}: Color.lerp(${swatch.name}, other.${swatch.name}, t)!,`),
+    '    );',
+    '  }',
+    '}'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Export palette as a .NET MAUI XAML resource dictionary
+ * Every value is a `Color` resource, with a `Dark` suffix for dark values.
+ * Each color also gets a `Brush` that follows the app theme through
+ * `AppThemeBinding`. MAUI has no high contrast theme, so those values are
+ * not exported.
+ */
+export function exportAsMAUI(colors: PaletteColor[]): string {
+  const value = (hex: string, alpha: number) => `#${alpha === 1 ? hex.replace('#', '').toUpperCase() : toARGB(hex, alpha)}`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    '<!-- Resources/Styles/Colors.xaml -->',
+    '<ResourceDictionary xmlns="http://schemas.microsoft.com/dotnet/2021/maui"',
+    '                    xmlns:x="http://schemas.microsoft.com/winfx/2009/xaml">',
+  ];
+  const brushes: string[] = [];
 
-    lines.push('| ' + rowCells.join(' | ') + ' |');
+  for (const color of colors) {
+    for (const swatch of getModeSwatches(color)) {
+      const name = `${getColorKey(color, 'pascal')}${swatch.step ?? ''}`;
+      lines.push(`    <Color x:Key="${name}">${value(swatch.values.light!, swatch.alpha)}</Color>`);
+      if (swatch.values.dark) {
+        lines.push(`    <Color x:Key="${name}Dark">${value(swatch.values.dark, swatch.alpha)}</Color>`);
+      }
+
+      const brushColor = swatch.values.dark
+        ? `{AppThemeBinding Light={StaticResource ${name}}, Dark={StaticResource ${name}Dark}}`
+        : `{StaticResource ${name}}`;
+      brushes.push(`    <SolidColorBrush x:Key="${name}Brush" Color="${brushColor}" />`);
+    }
   }
 
+  if (brushes.length > 0) {
+    lines.push('', ...brushes);
+  }
+  lines.push('</ResourceDictionary>');
   return lines.join('\n');
 }
 
 /**
- * Storage key for localStorage
+ * Exported swatches of a palette by mode, named the way swatch files show them
+ * A scaled color's steps are named `Neutral 500` and carry the color name as
+ * their group. Other modes list only the swatches that override light.
+ */
+function getNamedSwatches(
+  colors: PaletteColor[],
+  mode: ColorMode
+): Array<{ name: string; group?: string; hex: string; alpha: number }> {
+  return colors.flatMap((color) =>
+    getModeSwatches(color)
+      .filter((swatch) => swatch.values[mode])
+      .map((swatch) => ({
+        name: swatch.step ? `${color.name} ${swatch.step}` : color.name,
+        group: swatch.step ? color.name : undefined,
+        hex: swatch.values[mode]!,
+        alpha: swatch.alpha,
+      }))
+  );
+}
+
+/**
+ * Export palette as an Adobe Swatch Exchange file (Illustrator, Photoshop, InDesign)
+ * Tonal scales become swatch groups. ASE has no modes, so dark and high
+ * contrast values follow as a `Dark` and `High Contrast` group, and no
+ * alpha, so translucent colors are written opaque.
+ */
+export function exportAsASE(colors: PaletteColor[]): Uint8Array {
+  const blocks: Array<{ type: number; body: number[] }> = [];
+  const name = (text: string) => {
+    const units = Array.from({ length: text.length }, (_, i) => text.charCodeAt(i)).concat(0);
+    return [units.length >> 8, units.length & 0xff, ...units.flatMap((unit) => [unit >> 8, unit & 0xff])];
+  };
+  const color = (swatchName: string, hex: string) => {
+    const view = new DataView(new ArrayBuffer(12));
+    [1, 3, 5].forEach((i, channel) => view.setFloat32(channel * 4, parseInt(hex.slice(i, i + 2), 16) / 255));
+    // Color type 2 is a normal swatch, neither global nor spot
+    blocks.push({ type: 0x0001, body: [...name(swatchName), ...Array.from('RGB ', (chr) => chr.charCodeAt(0)), ...new Uint8Array(view.buffer), 0, 2] });
+  };
+  const group = (groupName: string, write: () => void) => {
+    blocks.push({ type: 0xc001, body: name(groupName) });
+    write();
+    blocks.push({ type: 0xc002, body: [] });
+  };
+
+  const light = getNamedSwatches(colors, 'light');
+  for (const swatch of light) {
+    if (!swatch.group) {
+      color(swatch.name, swatch.hex);
+    } else if (swatch === light.find((s) => s.group === swatch.group)) {
+      group(swatch.group, () => light.filter((s) => s.group === swatch.group).forEach((s) => color(s.name, s.hex)));
+    }
+  }
+  for (const mode of COLOR_MODES.filter((m) => m.id !== 'light' && getColorModes(colors).includes(m.id))) {
+    group(mode.name, () => getNamedSwatches(colors, mode.id).forEach((s) => color(s.name, s.hex)));
+  }
+
+  // Signature, version 1.0 and block count, then each block's type, body length and body
+  const bytes = [0x41, 0x53, 0x45, 0x46, 0, 1, 0, 0, ...toUint32(blocks.length)];
+  for (const block of blocks) {
+    bytes.push(block.type >> 8, block.type & 0xff, ...toUint32(block.body.length), ...block.body);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Big-endian bytes of an unsigned 32-bit integer
  */
-const STORAGE_KEY = 'huepass-palette';
+function toUint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
 
 /**
- * Save palette to localStorage
+ * Export palette as a GIMP palette (GIMP, Inkscape, Krita)
+ * Dark and high contrast values follow as extra swatches named like
+ * `Primary (Dark)`. GPL has no alpha, so translucent colors are written opaque.
  */
-export function savePalette(colors: PaletteColor[]): void {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(colors));
+export function exportAsGPL(colors: PaletteColor[], paletteName: string = 'HuePass'): string {
+  const lines = ['GIMP Palette', `Name: ${paletteName.replace(/\s+/g, ' ')}`, 'Columns: 8', '#'];
+
+  for (const mode of COLOR_MODES) {
+    for (const swatch of getNamedSwatches(colors, mode.id)) {
+      const rgb = [1, 3, 5].map((i) => String(parseInt(swatch.hex.slice(i, i + 2), 16)).padStart(3, ' '));
+      lines.push(`${rgb.join(' ')}\t${swatch.name}${mode.id === 'light' ? '' : ` (${mode.name})`}`);
+    }
   }
+
+  return lines.join('\n');
+}
+
+// Procreate palettes hold at most this many swatches
+const PROCREATE_MAX_SWATCHES = 30;
+
+/**
+ * Export palette as a Procreate `.swatches` file
+ * The file is a zip holding `Swatches.json`. Procreate stores swatches as
+ * HSB without names and a palette holds 30 at most, so only the first 30
+ * light values are included.
+ */
+export function exportAsProcreate(colors: PaletteColor[], paletteName: string = 'HuePass'): Uint8Array {
+  const swatches = getNamedSwatches(colors, 'light').slice(0, PROCREATE_MAX_SWATCHES).map((swatch) => {
+    const [r, g, b] = [1, 3, 5].map((i) => parseInt(swatch.hex.slice(i, i + 2), 16) / 255);
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+    let hue = 0;
+    if (delta > 0) {
+      hue = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    }
+    return { hue: hue / 6, saturation: max === 0 ? 0 : delta / max, brightness: max, alpha: swatch.alpha, colorSpace: 0 };
+  });
+
+  const json = JSON.stringify([{ name: paletteName, swatches }]);
+  return createZip([{ name: 'Swatches.json', data: new TextEncoder().encode(json) }]);
 }
 
 /**
- * Load palette from localStorage
+ * CRC-32 of a byte array, as zip entries record it
  */
-export function loadPalette(): PaletteColor[] {
-  if (typeof localStorage === 'undefined') {
-    return [];
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
   }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed zip archive
+ */
+function createZip(files: Array<{ name: string; data: Uint8Array }>): Uint8Array {
+  const le16 = (value: number) => [value & 0xff, (value >>> 8) & 0xff];
+  const le32 = (value: number) => [...le16(value & 0xffff), ...le16(value >>> 16)];
+  const local: number[] = [];
+  const central: number[] = [];
 
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (!stored) {
-    return [];
+  for (const file of files) {
+    const name = Array.from(new TextEncoder().encode(file.name));
+    // Version 2.0, no flags, stored, no timestamp, CRC, sizes and name length
+    const header = [...le16(20), ...le16(0), ...le16(0), ...le32(0), ...le32(crc32(file.data)), ...le32(file.data.length), ...le32(file.data.length), ...le16(name.length), ...le16(0)];
+    central.push(0x50, 0x4b, 0x01, 0x02, ...le16(20), ...header, ...le16(0), ...le16(0), ...le16(0), ...le32(0), ...le32(local.length), ...name);
+    local.push(0x50, 0x4b, 0x03, 0x04, ...header, ...name, ...file.data);
   }
 
-  try {
-    return JSON.parse(stored);
-  } catch {
-    return [];
+  const end = [0x50, 0x4b, 0x05, 0x06, ...le16(0), ...le16(0), ...le16(files.length), ...le16(files.length), ...le32(central.length), ...le32(local.length), ...le16(0)];
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+/**
+ * Export palette as an SVG swatch sheet
+ * Every swatch is shown with its name and hex value, followed by the WCAG
+ * contrast matrix with each background as a row. The sheet uses only fills
+ * and text, so a canvas can rasterize it to PNG.
+ */
+export function exportAsSwatchSheet(colors: PaletteColor[], title: string = 'HuePass Palette'): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+  const font = 'font-family="system-ui, -apple-system, sans-serif"';
+  const margin = 32;
+  const columns = 6;
+  const swatchWidth = 136;
+  const swatchGap = 16;
+  const cell = 64;
+  const labelWidth = 136;
+
+  const swatches = getNamedSwatches(colors, 'light');
+  const matrix = generateContrastMatrix(colors);
+  const swatchRows = Math.ceil(swatches.length / columns);
+  const matrixTop = margin + 48 + swatchRows * (120 + swatchGap) + 40;
+  const width = Math.max(margin * 2 + columns * (swatchWidth + swatchGap) - swatchGap, margin * 2 + labelWidth + colors.length * cell);
+  const height = matrixTop + 56 + colors.length * cell + margin;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${font}>`,
+    `  <rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    `  <text x="${margin}" y="${margin + 20}" font-size="22" font-weight="600" fill="#111827">${escape(title)}</text>`,
+  ];
+
+  swatches.forEach((swatch, i) => {
+    const x = margin + (i % columns) * (swatchWidth + swatchGap);
+    const y = margin + 48 + Math.floor(i / columns) * (120 + swatchGap);
+    const opacity = swatch.alpha < 1 ? ` fill-opacity="${swatch.alpha}"` : '';
+    parts.push(
+      `  <rect x="${x}" y="${y}" width="${swatchWidth}" height="80" rx="8" fill="${swatch.hex}"${opacity} stroke="#E5E7EB"/>`,
+      `  <text x="${x}" y="${y + 100}" font-size="13" font-weight="600" fill="#111827">${escape(truncate(swatch.name, 18))}</text>`,
+      `  <text x="${x}" y="${y + 116}" font-size="12" font-family="ui-monospace, monospace" fill="#6B7280">${swatch.hex.toUpperCase()}</text>`
+    );
+  });
+
+  if (colors.length > 1) {
+    parts.push(`  <text x="${margin}" y="${matrixTop}" font-size="16" font-weight="600" fill="#111827">Contrast Matrix</text>`);
+    colors.forEach((color, i) => {
+      const x = margin + labelWidth + i * cell;
+      parts.push(`  <text x="${x + cell / 2}" y="${matrixTop + 40}" font-size="11" text-anchor="middle" fill="#374151">${escape(truncate(color.name, 9))}</text>`);
+    });
+
+    matrix.forEach((row, r) => {
+      const y = matrixTop + 56 + r * cell;
+      const background = colors[r];
+      parts.push(`  <text x="${margin}" y="${y + cell / 2 + 4}" font-size="12" fill="#374151">${escape(truncate(background.name, 18))}</text>`);
+
+      row.forEach((matrixCell, c) => {
+        const x = margin + labelWidth + c * cell;
+        const foreground = colors[c];
+        const level = matrixCell.compliance.normalTextAAA ? 'AAA' : matrixCell.compliance.normalTextAA ? 'AA' : matrixCell.compliance.largeTextAA ? 'AA Large' : 'Fail';
+        parts.push(
+          `  <rect x="${x}" y="${y}" width="${cell}" height="${cell}" fill="${getPaletteColorValue(background)}" stroke="#FFFFFF"/>`,
+          `  <text x="${x + cell / 2}" y="${y + 26}" font-size="16" font-weight="600" text-anchor="middle" fill="${getPaletteColorValue(foreground)}">Aa</text>`,
+          `  <text x="${x + cell / 2}" y="${y + 44}" font-size="10" text-anchor="middle" fill="${getPaletteColorValue(foreground)}">${formatContrastRatio(matrixCell.ratio)}</text>`,
+          `  <text x="${x + cell / 2}" y="${y + 57}" font-size="9" text-anchor="middle" fill="${getPaletteColorValue(foreground)}">${level}</text>`
+        );
+      });
+    });
   }
+
+  parts.push('</svg>');
+  return parts.join('\n');
 }
 
 /**
- * Clear stored palette
+ * Export contrast matrix as a formatted report
+ * When pairings are declared, only those pairs are listed instead of the full matrix.
  */
-export function clearStoredPalette(): void {
-  if (typeof localStorage !== 'undefined') {
-    localStorage.removeItem(STORAGE_KEY);
+export function exportContrastReport(
+  colors: PaletteColor[],
+  matrix: ContrastMatrixCell[][],
+  algorithm: ContrastAlgorithm = 'wcag',
+  pairings: PalettePairing[] = []
+): string {
+  const lines = ['# Color Contrast Report', '', '## Palette Colors', ''];
+
+  const modes = getColorModes(colors);
+  for (const color of colors) {
+    const modeValues = modes
+      .filter((mode) => mode !== 'light' && color.modes?.[mode] !== undefined)
+      .map((mode) => `, ${COLOR_MODES.find((m) => m.id === mode)!.name.toLowerCase()} ${getPaletteColorValue(getModeColor(color, mode))}`)
+      .join('');
+    lines.push(`- **${color.name}**: ${getPaletteColorValue(color)}${modeValues}`);
+    const scale = getPaletteScale(color);
+    if (scale) {
+      lines.push(`  - Scale: ${scale.swatches.map((s) => `${s.step} ${s.hex}`).join(', ')}`);
+      for (const result of scale.rules) {
+        const { foreground, background, minRatio } = result.rule;
+        lines.push(
+          `  - ${foreground} on ${background}: ${formatContrastRatio(result.ratio)} (${result.passes ? 'Pass' : 'Fail'}, needs ${minRatio}:1)`
+        );
+      }
+    }
+  }
+
+  // Declared pairings replace the full matrix and are checked in every mode
+  if (checkPairings(colors, pairings).length > 0) {
+    lines.push('', '## Pairings', '');
+    lines.push('| Foreground | Background | Requirement | Mode | Contrast | Result |');
+    lines.push('| --- | --- | --- | --- | --- | --- |');
+    for (const mode of modes) {
+      const modeName = COLOR_MODES.find((m) => m.id === mode)!.name;
+      for (const result of checkPairings(colors, pairings, mode)) {
+        lines.push(
+          `| ${result.foreground.name} | ${result.background.name} | ${describePairingRequirement(result.pairing)} | ${modeName} | ${formatPairingValue(result)} | ${result.passes ? 'Pass' : 'Fail'} |`
+        );
+      }
+    }
+  } else {
+    lines.push('', '## Contrast Matrix', '');
+    lines.push(
+      algorithm === 'apca'
+        ? 'APCA lightness contrast (Lc), WCAG 3 draft. Negative values are light text on a dark background.'
+        : 'WCAG 2.1 contrast ratio. Pass means normal text AA (4.5:1).',
+      ''
+    );
+
+    // Header row
+    const headerCells = ['Background \\ Foreground', ...colors.map((c) => c.name)];
+    lines.push('| ' + headerCells.join(' | ') + ' |');
+    lines.push('| ' + headerCells.map(() => '---').join(' | ') + ' |');
+
+    // Data rows
+    for (let i = 0; i < colors.length; i++) {
+      const bgColor = colors[i];
+      const rowCells = [bgColor.name];
+
+      for (let j = 0; j < colors.length; j++) {
+        const cell = matrix[i][j];
+
+        if (algorithm === 'apca') {
+          const apca = cell.apca ?? checkAPCACompliance(calculatePairAPCA(colors[j], bgColor));
+          rowCells.push(`${apca.lcString} (${getAPCALevel(apca.lc).label})`);
+          continue;
+        }
+
+        const ratioStr = formatContrastRatio(cell.ratio);
+        const status = cell.compliance.normalTextAA ? 'Pass' : 'Fail';
+        rowCells.push(`${ratioStr} (${status})`);
+      }
+
+      lines.push('| ' + rowCells.join(' | ') + ' |');
+    }
   }
+
+  lines.push('', '## Color Vision Deficiency', '');
+  lines.push(
+    `Pairs closer than ΔE ${DISTINGUISHABILITY_THRESHOLD} (CIEDE2000) after simulation. Anomalous types are simulated at ${getCVDSeverity()}% severity.`,
+    ''
+  );
+
+  const issues = analyzeDistinguishability(colors);
+  if (issues.length === 0) {
+    lines.push('All colors stay distinguishable under every simulated vision type.');
+  } else {
+    lines.push('| Colors | Vision | ΔE | Normal ΔE |', '| --- | --- | --- | --- |');
+    for (const issue of issues) {
+      const vision = CVD_TYPES.find((t) => t.id === issue.cvdType)?.name ?? 'Normal vision';
+      lines.push(
+        `| ${issue.first.name} / ${issue.second.name} | ${vision} | ${issue.deltaE.toFixed(1)} | ${issue.normalDeltaE.toFixed(1)} |`
+      );
+    }
+  }
+
+  return lines.join('\n');
 }
@@ -0,0 +1,218 @@
+/**
+ * Tonal Scale Generator
+ * Expands a palette color into a Tailwind-style 50–950 ramp in OKLCH
+ */
+
+import { hexToRgb, rgbToHex, getContrastRatio, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { rgbToOklch, gamutMapOklch } from './color-space';
+import type { OKLCH } from './color-space';
+import type { PaletteColor } from './palette';
+
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type ScaleStep = (typeof SCALE_STEPS)[number];
+
+export interface ScaleContrastRule {
+  foreground: ScaleStep;
+  background: ScaleStep;
+  minRatio: number;
+}
+
+export interface ScaleOptions {
+  baseStep?: ScaleStep | 'auto'; // Step the palette color is pinned to
+  rules?: ScaleContrastRule[];
+}
+
+export interface ScaleSwatch {
+  step: ScaleStep;
+  hex: string;
+  rgb: RGB;
+}
+
+export interface ScaleRuleResult {
+  rule: ScaleContrastRule;
+  ratio: number;
+  passes: boolean;
+}
+
+export interface TonalScale {
+  baseStep: ScaleStep;
+  swatches: ScaleSwatch[];
+  rules: ScaleRuleResult[];
+}
+
+// Text steps should stay readable on the lightest tint
+export const DEFAULT_SCALE_RULES: ScaleContrastRule[] = [
+  { foreground: 600, background: 50, minRatio: WCAG_THRESHOLDS.normalTextAA },
+];
+
+// OKLCH lightness of the lightest and darkest steps
+const LIGHTEST = 0.97;
+const DARKEST = 0.27;
+
+// Smallest lightness gap kept between neighbouring steps
+const MIN_STEP_GAP = 0.005;
+
+// Smallest lightness gap between steps stretched past LIGHTEST or DARKEST
+const RAMP_GAP = 0.02;
+
+// Below this OKLCH lightness 8-bit colors run together into black
+const DARK_LIMIT = 0.06;
+
+/**
+ * Default lightness of a step when nothing is pinned, evenly spaced
+ */
+function getDefaultLightness(index: number): number {
+  return LIGHTEST - ((LIGHTEST - DARKEST) * index) / (SCALE_STEPS.length - 1);
+}
+
+/**
+ * Pick the step whose default lightness is closest to a color
+ */
+function getNearestStep(l: number): ScaleStep {
+  let nearest = 0;
+  for (let i = 1; i < SCALE_STEPS.length; i++) {
+    if (Math.abs(getDefaultLightness(i) - l) < Math.abs(getDefaultLightness(nearest) - l)) {
+      nearest = i;
+    }
+  }
+  return SCALE_STEPS[nearest];
+}
+
+/**
+ * Render one step at a lightness, tapering chroma toward the ends of the ramp
+ */
+function renderStep(base: OKLCH, l: number, lightEnd: number, darkEnd: number): RGB {
+  let chroma = base.c;
+  if (l > base.l && lightEnd > base.l) {
+    const t = (l - base.l) / (lightEnd - base.l);
+    chroma *= 1 - 0.9 * Math.min(t, 1) ** 2;
+  } else if (l < base.l && darkEnd < base.l) {
+    const t = (base.l - l) / (base.l - darkEnd);
+    chroma *= 1 - 0.55 * Math.min(t, 1) ** 2;
+  }
+
+  const mapped = gamutMapOklch({ l, c: Math.max(chroma, 0), h: base.h });
+  return { r: Math.round(mapped.r), g: Math.round(mapped.g), b: Math.round(mapped.b) };
+}
+
+/**
+ * Generate a tonal scale from a palette color
+ * The color is pinned at the chosen step (or the nearest step by lightness) and
+ * the other steps are spaced evenly in OKLCH lightness on either side, holding
+ * hue. A color too light or too dark to leave distinct steps on one side of
+ * the chosen step is pinned to the nearest step that does. Contrast rules are
+ * then enforced by pushing the unpinned step of each pair away from the other;
+ * rules that cannot be met without two steps becoming the same color are
+ * reported as failing.
+ * The ramp is opaque, so a translucent palette color's alpha is ignored.
+ */
+export function generateTonalScale(color: PaletteColor, options: ScaleOptions = {}): TonalScale {
+  const baseRgb = hexToRgb(color.hex) ?? { r: 0, g: 0, b: 0 };
+  const base = rgbToOklch({ r: baseRgb.r, g: baseRgb.g, b: baseRgb.b });
+  const chosenStep =
+    !options.baseStep || options.baseStep === 'auto' ? getNearestStep(base.l) : options.baseStep;
+  const last = SCALE_STEPS.length - 1;
+  const lightRoom = Math.floor((1 - base.l) / RAMP_GAP);
+  const darkRoom = Math.floor(Math.max(base.l - DARK_LIMIT, 0) / RAMP_GAP);
+  const baseIndex = Math.max(Math.min(SCALE_STEPS.indexOf(chosenStep), lightRoom), last - darkRoom);
+  const baseStep = SCALE_STEPS[baseIndex];
+  const rules = options.rules ?? DEFAULT_SCALE_RULES;
+
+  const lightEnd = Math.min(Math.max(LIGHTEST, base.l + baseIndex * RAMP_GAP), 1);
+  const darkEnd = Math.max(Math.min(DARKEST, base.l - (last - baseIndex) * RAMP_GAP), 0);
+
+  // Evenly spaced lightness from each end of the ramp to the pinned base
+  const lightness = SCALE_STEPS.map((_, i) => {
+    if (i < baseIndex) {
+      return lightEnd - ((lightEnd - base.l) * i) / baseIndex;
+    }
+    if (i > baseIndex) {
+      return base.l - ((base.l - darkEnd) * (i - baseIndex)) / (SCALE_STEPS.length - 1 - baseIndex);
+    }
+    return base.l;
+  });
+
+  const render = (i: number): RGB =>
+    i === baseIndex ? baseRgb : renderStep(base, lightness[i], lightEnd, darkEnd);
+  const countDistinct = () => new Set(SCALE_STEPS.map((_, i) => rgbToHex(render(i)))).size;
+
+  for (const rule of rules) {
+    const fgIndex = SCALE_STEPS.indexOf(rule.foreground);
+    const bgIndex = SCALE_STEPS.indexOf(rule.background);
+    if (fgIndex === bgIndex || fgIndex === -1 || bgIndex === -1) continue;
+
+    const passes = () => getContrastRatio(render(fgIndex), render(bgIndex)) >= rule.minRatio;
+    if (passes()) continue;
+    const before = [...lightness];
+    const distinctBefore = countDistinct();
+
+    // Move whichever step is not pinned away from its partner
+    const moving = fgIndex === baseIndex ? bgIndex : fgIndex;
+    const fixed = moving === fgIndex ? bgIndex : fgIndex;
+    const direction = moving > fixed ? 1 : -1;
+
+    // Never move past the pinned base
+    const pastBase = (baseIndex - moving) * direction > 0;
+    const extreme = pastBase ? base.l + direction * MIN_STEP_GAP : direction > 0 ? 0 : 1;
+
+    const original = lightness[moving];
+    lightness[moving] = extreme;
+    if (!passes()) {
+      lightness[moving] = original;
+      continue;
+    }
+
+    let failing = original;
+    let passing = extreme;
+    for (let i = 0; i < 24; i++) {
+      lightness[moving] = (failing + passing) / 2;
+      if (passes()) {
+        passing = lightness[moving];
+      } else {
+        failing = lightness[moving];
+      }
+    }
+    lightness[moving] = passing;
+
+    // Re-space the steps beyond the moved one up to the base or the end of the
+    // ramp, moving that end on past the moved step when it no longer lies beyond it
+    const stop = pastBase ? baseIndex : direction > 0 ? last : 0;
+    const remaining = Math.abs(stop - moving);
+    let stopL = base.l;
+    if (!pastBase && remaining > 0) {
+      const defaultGap = (LIGHTEST - DARKEST) / last;
+      const limit = direction > 0 ? DARK_LIMIT : 1;
+      const rampEnd = direction > 0 ? darkEnd : lightEnd;
+      stopL = (passing - rampEnd) * direction >= remaining * RAMP_GAP
+        ? rampEnd
+        : passing - direction * remaining * Math.min(defaultGap, Math.max((passing - limit) * direction, 0) / remaining);
+    }
+    for (let i = moving + direction; (stop - i) * direction >= 0; i += direction) {
+      if (i === baseIndex) break;
+      lightness[i] = passing + ((stopL - passing) * Math.abs(i - moving)) / remaining;
+    }
+
+    // A rule met only by merging steps into one color is left unmet
+    if (countDistinct() < distinctBefore) {
+      lightness.splice(0, lightness.length, ...before);
+    }
+  }
+
+  const swatches = SCALE_STEPS.map((step, i) => {
+    const rgb = render(i);
+    return { step, rgb, hex: rgbToHex(rgb).toUpperCase() };
+  });
+
+  return {
+    baseStep,
+    swatches,
+    rules: rules.map((rule) => {
+      const fg = swatches.find((s) => s.step === rule.foreground);
+      const bg = swatches.find((s) => s.step === rule.background);
+      const ratio = fg && bg ? getContrastRatio(fg.rgb, bg.rgb) : 1;
+      return { rule, ratio, passes: ratio >= rule.minRatio };
+    }),
+  };
+}
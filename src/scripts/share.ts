@@ -0,0 +1,386 @@
+/**
+ * Shareable Link Utilities
+ * Encodes checker, CVD and palette state into a compact, versioned URL hash
+ */
+
+import { generateId, PAIRING_REQUIREMENTS } from './palette';
+import type { PaletteColor, PalettePairing, PairingRequirement } from './palette';
+import { loadPalette, loadPairings } from './palette-library';
+import { getCurrentCVDMode, getCVDSeverity, isCVDAdjustable, CVD_TYPES } from './color-blindness';
+import type { CVDType } from './color-blindness';
+import { SCALE_STEPS } from './scales';
+import type { ScaleStep } from './scales';
+import { parseGradient } from './gradients';
+import { isTypography } from './typography';
+import type { FontSizeUnit } from './typography';
+import { RGB_COLOR_SPACES } from './wide-gamut';
+import type { WideGamutColor } from './wide-gamut';
+import type { RGBColorSpace, Vec3 } from './color-space';
+
+// Bump when the payload layout changes; older versions must stay decodable.
+// v2 adds declared pairings, token groups, aliases and wide-gamut values.
+export const SHARE_VERSION = 2;
+
+export interface ShareState {
+  foreground?: string;
+  background?: string;
+  foregroundWideGamut?: WideGamutColor; // Entered value when sRGB cannot show it; `foreground` is its fallback
+  backgroundWideGamut?: WideGamutColor;
+  layers?: string[];
+  gradient?: string; // CSS gradient checked instead of the flat background
+  cvdMode?: CVDType;
+  cvdSeverity?: number;
+  palette?: PaletteColor[];
+  pairings?: PalettePairing[]; // Between colors of the shared palette
+}
+
+/**
+ * Compact payload stored in the hash
+ * Colors are hex without `#`, with wide-gamut values as [space, components,
+ * alpha]; the checker's are keyed `fw` and `bw`. Palette colors are [name, hex,
+ * alpha, scale step, other modes, options] with the dark and high contrast
+ * values keyed `d` and `h`, and the group, alias and wide-gamut value keyed
+ * `g`, `a` (the index of its target and a scale step) and `w` (alpha is the
+ * entry's own); pairings are [foreground index, background index, requirement,
+ * APCA Lc, typography] with indexes into the palette.
+ */
+interface SharePayload {
+  f?: string;
+  b?: string;
+  fw?: ShareWideGamut;
+  bw?: ShareWideGamut;
+  l?: string[];
+  g?: string;
+  c?: CVDType;
+  s?: number;
+  p?: Array<SharePaletteEntry>;
+  r?: Array<SharePairingEntry>;
+}
+
+type SharePaletteEntry = [
+  string,
+  string,
+  (number | null)?,
+  (ScaleStep | 'auto' | null)?,
+  ({ d?: string; h?: string } | null)?,
+  { g?: string; a?: [number, ScaleStep?]; w?: ShareWideGamut }?,
+];
+
+type ShareWideGamut = [RGBColorSpace, number, number, number, number?];
+
+type SharePairingEntry = [number, number, PairingRequirement, (number | null)?, [number, FontSizeUnit, number]?];
+
+// Longest palette color name or group a link may carry
+const MAX_SHARED_NAME_LENGTH = 64;
+
+/**
+ * Checker state registered by the contrast checker
+ */
+let checkerState: Pick<ShareState, 'foreground' | 'background' | 'foregroundWideGamut' | 'backgroundWideGamut' | 'layers' | 'gradient'> = {};
+
+/**
+ * Shared state read from the URL, cached so every component sees it once the hash is cleared
+ */
+let sharedState: ShareState | null | undefined;
+
+/**
+ * Encode a UTF-8 string as base64url
+ */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url string to UTF-8
+ */
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Check that a decoded JSON value is a plain object
+ */
+function isPayload(value: unknown): value is SharePayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compact a wide-gamut color for the payload, dropping alpha when another field carries it
+ */
+function toShareWideGamut(color: WideGamutColor, withAlpha: boolean): ShareWideGamut {
+  const value: ShareWideGamut = [color.space, ...color.components];
+  if (withAlpha && color.alpha !== undefined && color.alpha < 1) value.push(color.alpha);
+  return value;
+}
+
+/**
+ * Read a wide-gamut color from the payload, or undefined when it is malformed
+ * Components may fall a little outside 0-1, as colors outside the space's gamut do.
+ */
+function readShareWideGamut(value: unknown, alpha?: number): WideGamutColor | undefined {
+  const [space, r, g, b, ownAlpha] = Array.isArray(value) ? value : [];
+  const gamut = RGB_COLOR_SPACES.find((s) => s.id === space);
+  const components = [r, g, b];
+  if (!gamut || !Array.isArray(value) || value.length > 5 || !components.every((c) => typeof c === 'number' && Math.abs(c) <= 2)) {
+    return undefined;
+  }
+
+  const color: WideGamutColor = { space: gamut.id, components: components as Vec3 };
+  const a = typeof ownAlpha === 'number' && ownAlpha >= 0 && ownAlpha < 1 ? ownAlpha : alpha;
+  if (a !== undefined) color.alpha = a;
+  return color;
+}
+
+/**
+ * Limit a shared color name to letters, digits and plain punctuation
+ * Links come from anywhere, so markup characters are dropped and the name is
+ * cut to a sane length; returns null when nothing usable is left.
+ */
+function sanitizeSharedName(name: unknown): string | null {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  const clean = name.replace(/[^\p{L}\p{N} _.,:()\/+#-]/gu, '').replace(/\s+/g, ' ').trim().slice(0, MAX_SHARED_NAME_LENGTH).trim();
+  return clean || null;
+}
+
+/**
+ * Encode share state as a URL hash (without the leading `#`)
+ */
+export function encodeShareState(state: ShareState): string {
+  const payload: SharePayload = {};
+  const strip = (hex: string) => hex.replace('#', '');
+
+  if (state.foreground) payload.f = strip(state.foreground);
+  if (state.background) payload.b = strip(state.background);
+  if (state.foregroundWideGamut) payload.fw = toShareWideGamut(state.foregroundWideGamut, true);
+  if (state.backgroundWideGamut) payload.bw = toShareWideGamut(state.backgroundWideGamut, true);
+  if (state.layers && state.layers.length > 0) payload.l = state.layers.map(strip);
+  if (state.gradient) payload.g = state.gradient;
+  if (state.cvdMode && state.cvdMode !== 'none') payload.c = state.cvdMode;
+  if (state.cvdMode && isCVDAdjustable(state.cvdMode) && state.cvdSeverity !== undefined) {
+    payload.s = state.cvdSeverity;
+  }
+  if (state.palette && state.palette.length > 0) {
+    const index = new Map(state.palette.map((color, i) => [color.id, i]));
+    payload.p = state.palette.map((color) => {
+      const entry: SharePaletteEntry = [color.name, strip(color.hex)];
+      const hasModes = color.modes?.dark !== undefined || color.modes?.highContrast !== undefined;
+      const aliasIndex = color.alias ? index.get(color.alias.id) : undefined;
+      const hasOptions = Boolean(color.group) || aliasIndex !== undefined || Boolean(color.wideGamut);
+      if (color.alpha !== undefined || color.scale || hasModes || hasOptions) entry.push(color.alpha ?? null);
+      if (color.scale || hasModes || hasOptions) entry.push(color.scale ? (color.scale.baseStep ?? 'auto') : null);
+      if (hasModes || hasOptions) {
+        entry.push(
+          hasModes
+            ? {
+                ...(color.modes?.dark ? { d: strip(color.modes.dark) } : {}),
+                ...(color.modes?.highContrast ? { h: strip(color.modes.highContrast) } : {}),
+              }
+            : null
+        );
+      }
+      if (hasOptions) {
+        entry.push({
+          ...(color.group ? { g: color.group } : {}),
+          ...(aliasIndex !== undefined ? { a: color.alias!.step ? [aliasIndex, color.alias!.step] : [aliasIndex] } : {}),
+          ...(color.wideGamut ? { w: toShareWideGamut(color.wideGamut, false) } : {}),
+        });
+      }
+      return entry;
+    });
+
+    const pairings = (state.pairings ?? []).flatMap((pairing): SharePairingEntry[] => {
+      const foreground = index.get(pairing.foregroundId);
+      const background = index.get(pairing.backgroundId);
+      if (foreground === undefined || background === undefined) return [];
+
+      const entry: SharePairingEntry = [foreground, background, pairing.requirement];
+      if (pairing.apcaLc !== undefined || pairing.typography) entry.push(pairing.apcaLc ?? null);
+      if (pairing.typography) entry.push([pairing.typography.size, pairing.typography.unit, pairing.typography.weight]);
+      return [entry];
+    });
+    if (pairings.length > 0) payload.r = pairings;
+  }
+
+  return `v${SHARE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decode a URL hash into share state
+ * Returns null when the hash is not a share link, is malformed or was made by a
+ * newer version.
+ */
+export function decodeShareState(hash: string): ShareState | null {
+  const match = /^#?v(\d+)\.([\w-]+)$/.exec(hash.trim());
+  if (!match || Number(match[1]) > SHARE_VERSION) {
+    return null;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    return null;
+  }
+  if (!isPayload(payload) || (payload.p !== undefined && !(Array.isArray(payload.p) && payload.p.every(Array.isArray)))) {
+    return null;
+  }
+
+  const hex = (value: unknown) => (typeof value === 'string' && /^[0-9a-f]{3,8}$/i.test(value) ? `#${value.toUpperCase()}` : undefined);
+  const state: ShareState = {};
+
+  state.foreground = hex(payload.f);
+  state.background = hex(payload.b);
+  if (state.foreground) state.foregroundWideGamut = readShareWideGamut(payload.fw);
+  if (state.background) state.backgroundWideGamut = readShareWideGamut(payload.bw);
+  if (Array.isArray(payload.l)) {
+    state.layers = payload.l.map(hex).filter((layer): layer is string => layer !== undefined);
+  }
+  if (typeof payload.g === 'string' && parseGradient(payload.g)) {
+    state.gradient = payload.g;
+  }
+  if (payload.c && CVD_TYPES.some((t) => t.id === payload.c)) {
+    state.cvdMode = payload.c;
+  }
+  if (typeof payload.s === 'number' && payload.s >= 0 && payload.s <= 100) {
+    state.cvdSeverity = payload.s;
+  }
+  // Pairings and aliases point at palette entries by position, skipped entries included
+  const byIndex = new Map<number, PaletteColor>();
+  if (Array.isArray(payload.p)) {
+    state.palette = [];
+    const aliases = new Map<PaletteColor, unknown>();
+    for (const [i, [rawName, value, alpha, baseStep, modes, options]] of payload.p.entries()) {
+      const name = sanitizeSharedName(rawName);
+      const colorHex = hex(value);
+      if (!name || !colorHex) continue;
+
+      const color: PaletteColor = { id: generateId(), name, hex: colorHex };
+      if (typeof alpha === 'number' && alpha >= 0 && alpha < 1) {
+        color.alpha = alpha;
+      }
+      if (baseStep === 'auto' || SCALE_STEPS.includes(baseStep as ScaleStep)) {
+        color.scale = { baseStep: baseStep as ScaleStep | 'auto' };
+      }
+      const dark = hex(modes?.d);
+      const highContrast = hex(modes?.h);
+      if (dark || highContrast) {
+        color.modes = { ...(dark ? { dark } : {}), ...(highContrast ? { highContrast } : {}) };
+      }
+      const group = options?.g;
+      if (typeof group === 'string' && group.length <= MAX_SHARED_NAME_LENGTH && /^[\p{L}\p{N}_-]+(\.[\p{L}\p{N}_-]+)*$/u.test(group)) {
+        color.group = group;
+      }
+      if (options?.a !== undefined) {
+        aliases.set(color, options.a);
+      }
+      const wideGamut = readShareWideGamut(options?.w, color.alpha);
+      if (wideGamut) {
+        color.wideGamut = wideGamut;
+      }
+      state.palette.push(color);
+      byIndex.set(i, color);
+    }
+
+    for (const [color, alias] of aliases) {
+      const [targetIndex, step] = Array.isArray(alias) ? alias : [];
+      const target = byIndex.get(targetIndex);
+      if (target && target !== color) {
+        color.alias = { id: target.id, ...(SCALE_STEPS.includes(step) ? { step } : {}) };
+      }
+    }
+  }
+  if (Array.isArray(payload.r)) {
+    state.pairings = [];
+    for (const entry of payload.r) {
+      if (!Array.isArray(entry)) continue;
+      const [foregroundIndex, backgroundIndex, requirement, apcaLc, typography] = entry;
+      const foreground = byIndex.get(foregroundIndex);
+      const background = byIndex.get(backgroundIndex);
+      if (!foreground || !background || !PAIRING_REQUIREMENTS.some((r) => r.id === requirement)) continue;
+
+      const pairing: PalettePairing = { id: generateId(), foregroundId: foreground.id, backgroundId: background.id, requirement };
+      if (requirement === 'apca' && typeof apcaLc === 'number') {
+        pairing.apcaLc = apcaLc;
+      }
+      const text = Array.isArray(typography) ? { size: typography[0], unit: typography[1], weight: typography[2] } : null;
+      if (isTypography(text)) {
+        pairing.typography = text;
+      }
+      state.pairings.push(pairing);
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Register the contrast checker's current colors for shared links
+ */
+export function setShareCheckerState(state: Pick<ShareState, 'foreground' | 'background' | 'foregroundWideGamut' | 'backgroundWideGamut' | 'layers' | 'gradient'>): void {
+  checkerState = state;
+}
+
+/**
+ * Get the full state to share: checker colors, CVD mode and the saved palette
+ */
+export function getShareState(): ShareState {
+  return {
+    ...checkerState,
+    cvdMode: getCurrentCVDMode(),
+    cvdSeverity: getCVDSeverity(),
+    palette: loadPalette(),
+    pairings: loadPairings(),
+  };
+}
+
+/**
+ * Build a link to the current page that restores the given state
+ */
+export function getShareUrl(state: ShareState = getShareState()): string {
+  return `${window.location.origin}${window.location.pathname}#${encodeShareState(state)}`;
+}
+
+/**
+ * Read shared state from the URL hash
+ * The hash is cleared after the first read so a reload does not restore it again;
+ * later calls return the cached state.
+ */
+export function consumeSharedState(): ShareState | null {
+  if (sharedState !== undefined) {
+    return sharedState;
+  }
+
+  sharedState = decodeShareState(window.location.hash);
+  if (sharedState) {
+    history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  }
+  return sharedState;
+}
+
+/**
+ * Copy a link to the current state to the clipboard
+ */
+export async function copyShareLink(): Promise<boolean> {
+  const url = getShareUrl();
+
+  try {
+    await navigator.clipboard.writeText(url);
+    return true;
+  } catch {
+    // Fallback for older browsers
+    const textarea = document.createElement('textarea');
+    textarea.value = url;
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = document.execCommand('copy');
+    document.body.removeChild(textarea);
+    return copied;
+  }
+}
@@ -0,0 +1,595 @@
+/**
+ * Stylesheet Contrast Linter
+ * Finds text/background pairs in CSS and SCSS and checks them against WCAG
+ */
+
+import { getContrastRatio, checkWCAGCompliance, formatContrastRatio, rgbToHex, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { parseColor } from './color-parser';
+
+export type LintCriterion = keyof typeof WCAG_THRESHOLDS;
+
+export interface LintCriterionInfo {
+  id: LintCriterion;
+  name: string;
+}
+
+export const LINT_CRITERIA: LintCriterionInfo[] = [
+  { id: 'normalTextAA', name: 'Normal text AA' },
+  { id: 'normalTextAAA', name: 'Normal text AAA' },
+  { id: 'largeTextAA', name: 'Large text AA' },
+  { id: 'largeTextAAA', name: 'Large text AAA' },
+  { id: 'uiComponents', name: 'UI components' },
+];
+
+export interface StylesheetSource {
+  path: string;
+  source: string;
+  syntax?: 'css' | 'scss'; // Detected from the file extension when omitted
+}
+
+/**
+ * A text/background pair set on different selectors
+ * Selectors must match a selector in the stylesheet exactly, ignoring whitespace.
+ */
+export interface LintPair {
+  foreground: string;
+  background: string;
+  criterion?: LintCriterion;
+}
+
+export interface LintOptions {
+  criterion?: LintCriterion; // Defaults to normal text AA
+  pairs?: LintPair[];
+}
+
+export interface LintFinding {
+  file: string;
+  line: number;
+  selector: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  criterion: LintCriterion;
+  passes: boolean;
+  declared: boolean; // From a declared pair rather than a single rule
+}
+
+export interface LintIssue {
+  file: string;
+  line: number;
+  selector: string;
+  message: string;
+}
+
+export interface LintReport {
+  findings: LintFinding[];
+  issues: LintIssue[];
+}
+
+interface StyleDeclaration {
+  property: string;
+  value: string;
+  line: number;
+}
+
+interface StyleRule {
+  file: string;
+  selector: string;
+  line: number;
+  declarations: StyleDeclaration[];
+}
+
+interface ResolvedColor {
+  rgb: RGB | null; // Null when the value could not be resolved to a color
+  declaration: StyleDeclaration;
+}
+
+// At-rules whose blocks hold style rules for the surrounding selector
+const TRANSPARENT_AT_RULES = ['media', 'supports', 'layer', 'container', 'scope', 'document'];
+
+// Values that leave the color to the cascade, so the pair cannot be judged here
+const CASCADE_KEYWORDS = ['inherit', 'initial', 'unset', 'revert', 'revert-layer', 'transparent', 'currentcolor', 'none'];
+
+// Selectors whose custom properties apply to the whole document
+const ROOT_SELECTORS = [':root', 'html', ':host', '*'];
+
+/**
+ * Blank out comments, keeping line breaks so line numbers stay correct
+ * SCSS line comments are removed too, except after a colon as in `url(http://…)`.
+ */
+function stripComments(source: string, syntax: 'css' | 'scss'): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  let result = source.replace(/\/\*[\s\S]*?\*\//g, blank);
+  if (syntax === 'scss') {
+    result = result.replace(/(^|[^:])(\/\/[^\n]*)/g, (_, before: string, comment: string) => before + blank(comment));
+  }
+  return result;
+}
+
+/**
+ * Combine a nested selector with its parent, expanding `&` and selector lists
+ */
+function nestSelector(parent: string, child: string): string {
+  if (!parent) {
+    return child;
+  }
+  const parents = splitTopLevel(parent, ',');
+  return splitTopLevel(child, ',')
+    .flatMap((part) =>
+      parents.map((p) => (part.includes('&') ? part.replace(/&/g, p) : `${p} ${part}`))
+    )
+    .join(', ');
+}
+
+/**
+ * Split on a separator outside of parentheses, brackets and quotes
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a stylesheet into flat rules with their full selectors
+ * Nested SCSS and CSS rules are flattened, @media-style blocks are read through,
+ * and other at-rule blocks (@keyframes, @font-face, mixins) are skipped. SCSS
+ * variables are substituted in order, so each use sees the value declared before it.
+ */
+function parseStylesheet(file: StylesheetSource, scssVariables: Map<string, string>): StyleRule[] {
+  const syntax = file.syntax ?? (/\.scss$/i.test(file.path) ? 'scss' : 'css');
+  const source = stripComments(file.source, syntax);
+  const rules: StyleRule[] = [];
+
+  // Each open block: the rule it belongs to (null inside skipped at-rules) and its selector
+  const stack: Array<{ rule: StyleRule | null; selector: string; skip: boolean }> = [];
+  let buffer = '';
+  let bufferLine = 1;
+  let line = 1;
+  let quote = '';
+  let parens = 0;
+
+  const current = () => stack[stack.length - 1];
+
+  const substitute = (value: string) =>
+    syntax === 'scss' ? value.replace(/\$([\w-]+)/g, (match, name: string) => scssVariables.get(name) ?? match) : value;
+
+  const flushDeclaration = () => {
+    const text = buffer.trim();
+    buffer = '';
+    if (!text || text.startsWith('@')) return;
+
+    const colon = text.indexOf(':');
+    if (colon === -1) return;
+    const property = text.slice(0, colon).trim();
+    const value = substitute(text.slice(colon + 1).replace(/!(important|default|global)\s*$/i, '').trim());
+
+    if (syntax === 'scss' && property.startsWith('$')) {
+      scssVariables.set(property.slice(1), value);
+      return;
+    }
+
+    const block = current();
+    if (block?.rule && !block.skip) {
+      block.rule.declarations.push({
+        property: property.startsWith('--') ? property : property.toLowerCase(),
+        value,
+        line: bufferLine,
+      });
+    }
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (!buffer.trim() && !/\s/.test(char)) {
+      bufferLine = line;
+    }
+    if (char === '\n') {
+      line++;
+    }
+
+    if (quote) {
+      buffer += char;
+      if (char === '\\') buffer += source[++i] ?? '';
+      else if (char === quote) quote = '';
+      continue;
+    }
+
+    // SCSS interpolation can hold braces
+    if (char === '#' && source[i + 1] === '{') {
+      const end = source.indexOf('}', i);
+      buffer += source.slice(i, end === -1 ? source.length : end + 1);
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      parens++;
+    } else if (char === ')') {
+      parens = Math.max(0, parens - 1);
+    }
+
+    if (parens > 0) {
+      buffer += char;
+      continue;
+    }
+
+    if (char === ';') {
+      flushDeclaration();
+    } else if (char === '{') {
+      const prelude = buffer.trim().replace(/\s+/g, ' ');
+      buffer = '';
+      const parent = current();
+      const parentSelector = parent?.selector ?? '';
+
+      if (parent?.skip) {
+        stack.push({ rule: null, selector: parentSelector, skip: true });
+      } else if (prelude.startsWith('@')) {
+        const name = /^@([\w-]+)/.exec(prelude)?.[1]?.toLowerCase() ?? '';
+        const transparent = TRANSPARENT_AT_RULES.includes(name);
+        stack.push({ rule: transparent ? (parent?.rule ?? null) : null, selector: parentSelector, skip: !transparent });
+      } else if (/^[\w-]+\s*:(\s|$)/.test(prelude) && parent?.rule) {
+        // SCSS nested property such as `font: { … }`
+        stack.push({ rule: null, selector: parentSelector, skip: true });
+      } else {
+        const selector = nestSelector(parentSelector, prelude);
+        const rule: StyleRule = { file: file.path, selector, line: bufferLine, declarations: [] };
+        rules.push(rule);
+        stack.push({ rule, selector, skip: false });
+      }
+    } else if (char === '}') {
+      flushDeclaration();
+      stack.pop();
+    } else {
+      buffer += char;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Resolve var() references in a value
+ * Properties set on the same rule win, then those on :root-like selectors,
+ * then the last declaration anywhere. Returns null when a reference has
+ * neither a declaration nor a fallback.
+ */
+function resolveVars(
+  value: string,
+  local: Map<string, string>,
+  global: { root: Map<string, string>; any: Map<string, string> },
+  seen: Set<string> = new Set()
+): string | null {
+  const start = value.indexOf('var(');
+  if (start === -1) {
+    return value;
+  }
+
+  // Find the matching closing parenthesis
+  let depth = 0;
+  let end = start + 3;
+  for (; end < value.length; end++) {
+    if (value[end] === '(') depth++;
+    else if (value[end] === ')' && --depth === 0) break;
+  }
+  if (end >= value.length) {
+    return null;
+  }
+
+  const [name, ...fallbackParts] = value.slice(start + 4, end).split(',');
+  const property = name.trim();
+  const fallback = fallbackParts.length > 0 ? fallbackParts.join(',').trim() : null;
+
+  let replacement: string | null = null;
+  const declared = local.get(property) ?? global.root.get(property) ?? global.any.get(property);
+  if (declared !== undefined && !seen.has(property)) {
+    replacement = resolveVars(declared, local, global, new Set([...seen, property]));
+  }
+  if (replacement === null && fallback !== null) {
+    replacement = resolveVars(fallback, local, global, seen);
+  }
+  if (replacement === null) {
+    return null;
+  }
+
+  return resolveVars(value.slice(0, start) + replacement + value.slice(end + 1), local, global, seen);
+}
+
+/**
+ * Pick the color out of a `background` shorthand
+ * Gradients are skipped because the text sits on colors that vary across the box.
+ */
+function readBackgroundColor(value: string): RGB | null {
+  const whole = parseColor(value);
+  if (whole || /gradient\(/i.test(value)) {
+    return whole;
+  }
+
+  const layers = splitTopLevel(value, ',');
+  const tokens = splitTopLevel(layers[layers.length - 1] ?? '', ' ');
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const rgb = parseColor(tokens[i]);
+    if (rgb) return rgb;
+  }
+  return null;
+}
+
+/**
+ * Lint stylesheets for failing text/background pairs
+ * Every rule that sets both `color` and `background-color` (or a `background`
+ * with a color) is checked, as are declared pairs split across selectors.
+ * Custom properties are shared across all given files, so tokens in one file
+ * resolve in another. Values that cannot be resolved are reported as issues;
+ * cascade keywords such as `inherit` or `transparent` are skipped.
+ */
+export function lintStylesheets(files: StylesheetSource[], options: LintOptions = {}): LintReport {
+  const defaultCriterion = options.criterion ?? 'normalTextAA';
+  const scssVariables = new Map<string, string>();
+  const rules = files.flatMap((file) => parseStylesheet(file, scssVariables));
+
+  const global = { root: new Map<string, string>(), any: new Map<string, string>() };
+  for (const rule of rules) {
+    const isRoot = splitTopLevel(rule.selector, ',').some((s) => ROOT_SELECTORS.includes(s));
+    for (const declaration of rule.declarations) {
+      if (!declaration.property.startsWith('--')) continue;
+      global.any.set(declaration.property, declaration.value);
+      if (isRoot) global.root.set(declaration.property, declaration.value);
+    }
+  }
+
+  const findings: LintFinding[] = [];
+  const issues: LintIssue[] = [];
+
+  // Resolve the last color and background declared on a rule
+  // Undefined when the rule does not set it, null when it is left to the cascade
+  const resolveRule = (rule: StyleRule) => {
+    const local = new Map(
+      rule.declarations.filter((d) => d.property.startsWith('--')).map((d) => [d.property, d.value])
+    );
+
+    const read = (properties: string[], parse: (value: string) => RGB | null): ResolvedColor | null | undefined => {
+      const declaration = [...rule.declarations].reverse().find((d) => properties.includes(d.property));
+      if (!declaration) return undefined;
+
+      const value = resolveVars(declaration.value, local, global);
+      if (value !== null && CASCADE_KEYWORDS.includes(value.trim().toLowerCase())) return null;
+      return { rgb: value === null ? null : parse(value), declaration };
+    };
+
+    return {
+      color: read(['color'], parseColor),
+      background: read(['background-color', 'background'], readBackgroundColor),
+    };
+  };
+
+  // Report values that are needed for a pair but could not be resolved
+  const reportUnresolved = (rule: StyleRule, ...colors: ResolvedColor[]) => {
+    for (const { rgb, declaration } of colors) {
+      if (rgb) continue;
+      issues.push({
+        file: rule.file,
+        line: declaration.line,
+        selector: rule.selector,
+        message: `Could not resolve a color from ${declaration.property}: ${declaration.value}`,
+      });
+    }
+  };
+
+  const resolved = new Map(rules.map((rule) => [rule, resolveRule(rule)]));
+
+  const addFinding = (
+    rule: StyleRule,
+    line: number,
+    selector: string,
+    foreground: RGB,
+    background: RGB,
+    criterion: LintCriterion,
+    declared: boolean
+  ) => {
+    const ratio = getContrastRatio(foreground, background);
+    findings.push({
+      file: rule.file,
+      line,
+      selector,
+      foreground: rgbToHex(foreground).toUpperCase(),
+      background: rgbToHex(background).toUpperCase(),
+      ratio,
+      criterion,
+      passes: checkWCAGCompliance(ratio)[criterion],
+      declared,
+    });
+  };
+
+  for (const rule of rules) {
+    const { color, background } = resolved.get(rule)!;
+    if (!color || !background) continue;
+
+    reportUnresolved(rule, color, background);
+    if (color.rgb && background.rgb) {
+      const line = Math.min(color.declaration.line, background.declaration.line);
+      addFinding(rule, line, rule.selector, color.rgb, background.rgb, defaultCriterion, false);
+    }
+  }
+
+  // Declared pairs use the last rule listing each selector, as the cascade would
+  const normalize = (selector: string) => selector.replace(/\s+/g, ' ').trim();
+  const findRule = (selector: string, key: 'color' | 'background') =>
+    [...rules]
+      .reverse()
+      .find(
+        (rule) =>
+          resolved.get(rule)![key] !== undefined &&
+          splitTopLevel(rule.selector, ',').some((s) => normalize(s) === normalize(selector))
+      );
+
+  for (const pair of options.pairs ?? []) {
+    const fgRule = findRule(pair.foreground, 'color');
+    const bgRule = findRule(pair.background, 'background');
+    const missing = !fgRule ? `${pair.foreground} does not set color` : !bgRule ? `${pair.background} does not set a background` : '';
+    if (missing) {
+      issues.push({
+        file: (fgRule ?? bgRule)?.file ?? files[0]?.path ?? '',
+        line: (fgRule ?? bgRule)?.line ?? 1,
+        selector: `${pair.foreground} on ${pair.background}`,
+        message: `Declared pair skipped: ${missing}`,
+      });
+      continue;
+    }
+
+    const color = resolved.get(fgRule!)!.color;
+    const background = resolved.get(bgRule!)!.background;
+    if (!color || !background) continue;
+
+    reportUnresolved(fgRule!, color);
+    reportUnresolved(bgRule!, background);
+    if (color.rgb && background.rgb) {
+      addFinding(
+        fgRule!,
+        color.declaration.line,
+        `${pair.foreground} on ${pair.background}`,
+        color.rgb,
+        background.rgb,
+        pair.criterion ?? defaultCriterion,
+        true
+      );
+    }
+  }
+
+  return { findings, issues };
+}
+
+/**
+ * Get the display name and required ratio of a criterion
+ */
+function describeCriterion(criterion: LintCriterion): string {
+  const name = LINT_CRITERIA.find((c) => c.id === criterion)?.name ?? criterion;
+  return `${name} (${WCAG_THRESHOLDS[criterion]}:1)`;
+}
+
+/**
+ * Format a report as readable text grouped by file
+ * Passing pairs are left out unless `verbose` is set.
+ */
+export function formatLintText(report: LintReport, verbose = false): string {
+  const findings = report.findings.filter((f) => verbose || !f.passes);
+  const files = [...new Set([...findings.map((f) => f.file), ...report.issues.map((i) => i.file)])];
+  const lines: string[] = [];
+
+  for (const file of files) {
+    const entries = [
+      ...findings
+        .filter((f) => f.file === file)
+        .map((f) => ({
+          line: f.line,
+          text: `${f.selector}  ${f.foreground} on ${f.background}  ${formatContrastRatio(f.ratio)}  ${f.passes ? 'passes' : 'fails'} ${describeCriterion(f.criterion)}`,
+        })),
+      ...report.issues.filter((i) => i.file === file).map((i) => ({ line: i.line, text: `${i.selector}  warning  ${i.message}` })),
+    ].sort((a, b) => a.line - b.line);
+
+    lines.push(file, ...entries.map((e) => `  ${String(e.line).padStart(4)}  ${e.text}`), '');
+  }
+
+  const failing = report.findings.filter((f) => !f.passes).length;
+  lines.push(
+    `${failing} failing pair${failing !== 1 ? 's' : ''}, ${report.findings.length - failing} passing, ${report.issues.length} warning${report.issues.length !== 1 ? 's' : ''}`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Format a report as JSON
+ */
+export function formatLintJSON(report: LintReport): string {
+  return JSON.stringify(
+    {
+      findings: report.findings.map((f) => ({ ...f, ratio: Number(f.ratio.toFixed(2)), required: WCAG_THRESHOLDS[f.criterion] })),
+      issues: report.issues,
+      failing: report.findings.filter((f) => !f.passes).length,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Format a report as SARIF 2.1.0 for code scanning tools
+ * Failing pairs are errors under one rule per criterion; unresolved values are warnings.
+ */
+export function formatLintSARIF(report: LintReport): string {
+  const location = (file: string, line: number) => [
+    { physicalLocation: { artifactLocation: { uri: file }, region: { startLine: line } } },
+  ];
+
+  const results = [
+    ...report.findings
+      .filter((f) => !f.passes)
+      .map((f) => ({
+        ruleId: `contrast/${f.criterion}`,
+        level: 'error',
+        message: {
+          text: `${f.selector}: ${f.foreground} on ${f.background} is ${formatContrastRatio(f.ratio)}, below ${describeCriterion(f.criterion)}`,
+        },
+        locations: location(f.file, f.line),
+        properties: { selector: f.selector, foreground: f.foreground, background: f.background, ratio: Number(f.ratio.toFixed(2)) },
+      })),
+    ...report.issues.map((i) => ({
+      ruleId: 'contrast/unresolved',
+      level: 'warning',
+      message: { text: `${i.selector}: ${i.message}` },
+      locations: location(i.file, i.line),
+      properties: { selector: i.selector },
+    })),
+  ];
+
+  return JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'HuePass',
+              informationUri: 'https://www.huepass.com',
+              rules: [
+                ...LINT_CRITERIA.map((c) => ({
+                  id: `contrast/${c.id}`,
+                  shortDescription: { text: `Text and background fail WCAG ${describeCriterion(c.id)}` },
+                })),
+                { id: 'contrast/unresolved', shortDescription: { text: 'Color value could not be resolved' } },
+              ],
+            },
+          },
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
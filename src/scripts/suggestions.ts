@@ -0,0 +1,133 @@
+/**
+ * Perceptual Color Suggestion Engine
+ * Finds the closest passing alternatives in OKLCH for several contrast targets
+ */
+
+import { getContrastRatio, rgbToHex, WCAG_THRESHOLDS } from './contrast';
+import type { RGB } from './contrast';
+import { getAPCAContrast, APCA_THRESHOLDS } from './apca';
+import { searchOklchLightness, getDeltaE2000 } from './color-space';
+
+export type SuggestionTarget = 'aa' | 'aaa' | 'ui' | 'apca';
+
+export interface SuggestionTargetInfo {
+  id: SuggestionTarget;
+  name: string;
+  requirement: string;
+}
+
+export const SUGGESTION_TARGETS: SuggestionTargetInfo[] = [
+  { id: 'aa', name: 'AA', requirement: `${WCAG_THRESHOLDS.normalTextAA}:1` },
+  { id: 'aaa', name: 'AAA', requirement: `${WCAG_THRESHOLDS.normalTextAAA}:1` },
+  { id: 'ui', name: 'UI', requirement: `${WCAG_THRESHOLDS.uiComponents}:1` },
+  { id: 'apca', name: 'APCA', requirement: `Lc ${APCA_THRESHOLDS.bodyText}` },
+];
+
+export interface ColorSuggestion {
+  target: SuggestionTarget;
+  adjusted: 'foreground' | 'background';
+  rgb: RGB;
+  hex: string;
+  ratio: number;
+  lc: number;
+  deltaE: number;
+}
+
+export interface SuggestionOptions {
+  targets?: SuggestionTarget[];
+  adjust?: Array<'foreground' | 'background'>;
+  apcaTarget?: number;
+}
+
+/**
+ * Check whether a foreground/background pair meets a target
+ */
+export function meetsTarget(
+  foreground: RGB,
+  background: RGB,
+  target: SuggestionTarget,
+  apcaTarget: number = APCA_THRESHOLDS.bodyText
+): boolean {
+  switch (target) {
+    case 'aa':
+      return getContrastRatio(foreground, background) >= WCAG_THRESHOLDS.normalTextAA;
+    case 'aaa':
+      return getContrastRatio(foreground, background) >= WCAG_THRESHOLDS.normalTextAAA;
+    case 'ui':
+      return getContrastRatio(foreground, background) >= WCAG_THRESHOLDS.uiComponents;
+    case 'apca':
+      return Math.abs(getAPCAContrast(foreground, background)) >= apcaTarget;
+  }
+}
+
+/**
+ * Find the closest passing replacement for one side of a pair
+ * Tries lighter and darker OKLCH lightness and keeps the smaller CIEDE2000 change
+ */
+function findClosest(
+  foreground: RGB,
+  background: RGB,
+  adjusted: 'foreground' | 'background',
+  target: SuggestionTarget,
+  apcaTarget: number
+): ColorSuggestion | null {
+  const original = adjusted === 'foreground' ? foreground : background;
+  const passes = (candidate: RGB) =>
+    adjusted === 'foreground'
+      ? meetsTarget(candidate, background, target, apcaTarget)
+      : meetsTarget(foreground, candidate, target, apcaTarget);
+
+  let best: ColorSuggestion | null = null;
+  for (const direction of ['lighter', 'darker'] as const) {
+    const rgb = searchOklchLightness(original, passes, direction);
+    if (!rgb) continue;
+
+    const fg = adjusted === 'foreground' ? rgb : foreground;
+    const bg = adjusted === 'foreground' ? background : rgb;
+    const suggestion: ColorSuggestion = {
+      target,
+      adjusted,
+      rgb,
+      hex: rgbToHex(rgb).toUpperCase(),
+      ratio: getContrastRatio(fg, bg),
+      lc: getAPCAContrast(fg, bg),
+      deltaE: getDeltaE2000(rgb, original),
+    };
+
+    if (!best || suggestion.deltaE < best.deltaE) {
+      best = suggestion;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Generate ranked suggestions for a failing foreground/background pair
+ * Returns the closest passing color per target and adjusted side, skipping
+ * targets the pair already meets, ordered by CIEDE2000 distance from the original.
+ * Both colors should be opaque.
+ */
+export function getColorSuggestions(
+  foreground: RGB,
+  background: RGB,
+  options: SuggestionOptions = {}
+): ColorSuggestion[] {
+  const targets = options.targets ?? SUGGESTION_TARGETS.map((t) => t.id);
+  const sides = options.adjust ?? ['foreground', 'background'];
+  const apcaTarget = options.apcaTarget ?? APCA_THRESHOLDS.bodyText;
+
+  const suggestions: ColorSuggestion[] = [];
+  for (const target of targets) {
+    if (meetsTarget(foreground, background, target, apcaTarget)) continue;
+
+    for (const side of sides) {
+      const suggestion = findClosest(foreground, background, side, target, apcaTarget);
+      if (suggestion) {
+        suggestions.push(suggestion);
+      }
+    }
+  }
+
+  return suggestions.sort((a, b) => a.deltaE - b.deltaE);
+}
@@ -0,0 +1,103 @@
+/**
+ * Theme Mode Generator
+ * Proposes dark mode counterparts for palette colors that keep declared pairings passing
+ */
+
+import { hexToRgb, rgbToHex, getContrastRatio } from './contrast';
+import type { RGB } from './contrast';
+import { getAPCAContrast } from './apca';
+import { rgbToOklch, gamutMapOklch, searchOklchLightness } from './color-space';
+import { checkPairings, meetsPairingRequirement } from './palette';
+import type { PaletteColor, PalettePairing, PairingResult } from './palette';
+
+// OKLCH lightness range that light mode colors are flipped into
+const DARK_SURFACE = 0.18;
+const DARK_TEXT = 0.95;
+
+// Passes over the pairings; fixing one pairing can break another that shares a color
+const MAX_PASSES = 3;
+
+export interface DarkModeProposal {
+  colors: PaletteColor[]; // Copies of the palette with `modes.dark` set
+  unmet: PairingResult[]; // Pairings that still fail in dark mode
+}
+
+/**
+ * Flip a color's OKLCH lightness for dark mode
+ * Light surfaces become dark ones and dark text becomes light, compressed into
+ * a range that avoids pure black and white; hue and chroma are held.
+ */
+export function flipLightness(rgb: RGB): RGB {
+  const lch = rgbToOklch({ r: rgb.r, g: rgb.g, b: rgb.b });
+  const l = DARK_SURFACE + (DARK_TEXT - DARK_SURFACE) * (1 - Math.min(Math.max(lch.l, 0), 1));
+  const mapped = gamutMapOklch({ ...lch, l });
+  return { r: Math.round(mapped.r), g: Math.round(mapped.g), b: Math.round(mapped.b) };
+}
+
+/**
+ * Check whether a foreground/background pair meets a pairing's requirement
+ */
+function meetsPairing(foreground: RGB, background: RGB, pairing: PalettePairing): boolean {
+  return meetsPairingRequirement(getContrastRatio(foreground, background), getAPCAContrast(foreground, background), pairing);
+}
+
+/**
+ * Propose dark mode values for every color in a palette
+ * Each color's lightness is flipped, then failing pairings are repaired by
+ * moving the foreground away from its background in OKLCH lightness, or the
+ * background when the foreground cannot get there. Alpha and tonal scale
+ * settings carry over unchanged.
+ */
+export function generateDarkMode(colors: PaletteColor[], pairings: PalettePairing[] = []): DarkModeProposal {
+  const dark = new Map<string, RGB>();
+  for (const color of colors) {
+    const rgb = hexToRgb(color.hex) ?? { r: 0, g: 0, b: 0 };
+    dark.set(color.id, flipLightness(rgb));
+  }
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let changed = false;
+
+    for (const pairing of pairings) {
+      const foreground = dark.get(pairing.foregroundId);
+      const background = dark.get(pairing.backgroundId);
+      if (!foreground || !background || meetsPairing(foreground, background, pairing)) continue;
+
+      const towardsForeground = rgbToOklch(foreground).l >= rgbToOklch(background).l ? 'lighter' : 'darker';
+      const towardsBackground = towardsForeground === 'lighter' ? 'darker' : 'lighter';
+      const adjustedForeground = searchOklchLightness(
+        foreground,
+        (candidate) => meetsPairing(candidate, background, pairing),
+        towardsForeground
+      );
+
+      if (adjustedForeground) {
+        dark.set(pairing.foregroundId, adjustedForeground);
+        changed = true;
+        continue;
+      }
+
+      const adjustedBackground = searchOklchLightness(
+        background,
+        (candidate) => meetsPairing(foreground, candidate, pairing),
+        towardsBackground
+      );
+      if (adjustedBackground) {
+        dark.set(pairing.backgroundId, adjustedBackground);
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  const proposed = colors.map((color) => ({
+    ...color,
+    modes: { ...color.modes, dark: rgbToHex(dark.get(color.id)!).toUpperCase() },
+  }));
+
+  return {
+    colors: proposed,
+    unmet: checkPairings(proposed, pairings, 'dark').filter((result) => !result.passes),
+  };
+}
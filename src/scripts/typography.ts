@@ -0,0 +1,156 @@
+/**
+ * Typography-Aware Compliance
+ * Works out which WCAG text rule applies at a font size and weight, and the APCA minimum size
+ */
+
+import { WCAG_THRESHOLDS } from './contrast';
+import { getAPCAMinFontSize } from './apca';
+import type { APCAFontWeight } from './apca';
+
+export type FontSizeUnit = 'px' | 'pt' | 'rem';
+
+export interface FontSizeUnitInfo {
+  id: FontSizeUnit;
+  name: string;
+}
+
+export const FONT_SIZE_UNITS: FontSizeUnitInfo[] = [
+  { id: 'px', name: 'px' },
+  { id: 'pt', name: 'pt' },
+  { id: 'rem', name: 'rem' },
+];
+
+export interface Typography {
+  size: number;
+  unit: FontSizeUnit;
+  weight: number; // CSS font-weight, 100-900
+}
+
+export type ComplianceLevel = 'AA' | 'AAA';
+
+export interface TextComplianceOptions {
+  level?: ComplianceLevel; // AA when omitted
+  rootSize?: number; // Root font size in px for rem sizes, 16 when omitted
+  lc?: number; // APCA Lc; when given the APCA minimum size is checked too
+}
+
+export interface TextCompliance {
+  ratio: number;
+  px: number; // Font size in CSS pixels
+  large: boolean; // Whether the WCAG large text rule applies
+  level: ComplianceLevel;
+  required: number; // Ratio the level needs at this size and weight
+  passes: boolean;
+  apca?: {
+    lc: number;
+    weight: APCAFontWeight; // Nearest weight in the APCA lookup table
+    minSize: number | null; // Smallest usable size in px, null when no size is readable
+    passes: boolean;
+  };
+}
+
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+
+export const DEFAULT_TYPOGRAPHY: Typography = { size: 16, unit: 'px', weight: 400 };
+
+// WCAG large text: at least 18pt, or 14pt when bold
+export const LARGE_TEXT = { size: 18, boldSize: 14, boldWeight: 700 } as const;
+
+// CSS defines 1pt as 4/3px
+const PX_PER_PT = 4 / 3;
+
+/**
+ * Convert a font size to CSS pixels
+ */
+export function toPixels(typography: Typography, rootSize: number = DEFAULT_ROOT_FONT_SIZE): number {
+  switch (typography.unit) {
+    case 'pt':
+      return typography.size * PX_PER_PT;
+    case 'rem':
+      return typography.size * rootSize;
+    default:
+      return typography.size;
+  }
+}
+
+/**
+ * Check whether text counts as large under WCAG 2.1
+ * Sizes are compared in points after conversion; bold means a weight of 700
+ * or more.
+ */
+export function isLargeText(typography: Typography, rootSize: number = DEFAULT_ROOT_FONT_SIZE): boolean {
+  const pt = toPixels(typography, rootSize) / PX_PER_PT;
+  const minimum = typography.weight >= LARGE_TEXT.boldWeight ? LARGE_TEXT.boldSize : LARGE_TEXT.size;
+  return pt >= minimum - 0.005;
+}
+
+/**
+ * Nearest weight in the APCA font lookup table
+ */
+export function getAPCAWeight(weight: number): APCAFontWeight {
+  const rounded = Math.round(weight / 100) * 100;
+  return Math.min(900, Math.max(100, rounded)) as APCAFontWeight;
+}
+
+/**
+ * Short description of a size and weight, e.g. "14pt bold" or "1.5rem 500"
+ */
+export function describeTypography(typography: Typography): string {
+  const weight = typography.weight === 400 ? 'regular' : typography.weight === 700 ? 'bold' : `${typography.weight}`;
+  return `${typography.size}${typography.unit} ${weight}`;
+}
+
+/**
+ * Check text contrast at a font size and weight
+ * Picks the normal or large text threshold for the level, so a single verdict
+ * comes back instead of both buckets. With an APCA Lc, the size is also
+ * checked against the APCA minimum for the nearest lookup weight.
+ */
+export function checkTextCompliance(
+  ratio: number,
+  typography: Typography,
+  options: TextComplianceOptions = {}
+): TextCompliance {
+  const level = options.level ?? 'AA';
+  const rootSize = options.rootSize ?? DEFAULT_ROOT_FONT_SIZE;
+  const px = toPixels(typography, rootSize);
+  const large = isLargeText(typography, rootSize);
+  const required = large
+    ? level === 'AAA' ? WCAG_THRESHOLDS.largeTextAAA : WCAG_THRESHOLDS.largeTextAA
+    : level === 'AAA' ? WCAG_THRESHOLDS.normalTextAAA : WCAG_THRESHOLDS.normalTextAA;
+
+  const result: TextCompliance = { ratio, px, large, level, required, passes: ratio >= required };
+
+  if (options.lc !== undefined) {
+    const weight = getAPCAWeight(typography.weight);
+    const minSize = getAPCAMinFontSize(options.lc, weight);
+    result.apca = { lc: options.lc, weight, minSize, passes: minSize !== null && px >= minSize };
+  }
+
+  return result;
+}
+
+/**
+ * Describe a verdict, e.g. "Large text (14pt bold) needs 3:1 for AA"
+ */
+export function describeTextCompliance(compliance: TextCompliance, typography: Typography): string {
+  const bucket = compliance.large ? 'Large text' : 'Normal text';
+  return `${bucket} (${describeTypography(typography)}) needs ${compliance.required}:1 for ${compliance.level}`;
+}
+
+/**
+ * Validate typography read from storage or an import
+ */
+export function isTypography(value: unknown): value is Typography {
+  const t = value as Typography;
+  return (
+    typeof t === 'object' &&
+    t !== null &&
+    typeof t.size === 'number' &&
+    t.size > 0 &&
+    FONT_SIZE_UNITS.some((unit) => unit.id === t.unit) &&
+    typeof t.weight === 'number' &&
+    t.weight >= 1 &&
+    t.weight <= 1000
+  );
+}
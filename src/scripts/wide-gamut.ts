@@ -0,0 +1,179 @@
+/**
+ * Wide-Gamut Colors
+ * Float-precision colors tagged with sRGB, Display P3 or Rec.2020, with gamut checks and mapping
+ */
+
+import { rgbToHex, getContrastRatio, getRelativeLuminance } from './contrast';
+import type { RGB } from './contrast';
+import { parseUnclampedColor } from './color-parser';
+import {
+  rgbToColorSpace,
+  colorSpaceToRgb,
+  isInGamut,
+  gamutMapOklch,
+  rgbToOklch,
+  getDeltaE2000,
+} from './color-space';
+import type { RGBColorSpace, Vec3 } from './color-space';
+
+export interface ColorSpaceInfo {
+  id: RGBColorSpace;
+  name: string;
+}
+
+// Narrowest first, so the first space that holds a color is its gamut
+export const RGB_COLOR_SPACES: ColorSpaceInfo[] = [
+  { id: 'srgb', name: 'sRGB' },
+  { id: 'display-p3', name: 'Display P3' },
+  { id: 'rec2020', name: 'Rec.2020' },
+];
+
+export interface WideGamutColor {
+  space: RGBColorSpace;
+  components: Vec3; // Gamma-encoded 0-1, unclamped
+  alpha?: number; // 0-1, opaque when omitted
+}
+
+export interface GamutWarning {
+  gamut: RGBColorSpace | null; // Narrowest space that holds the color, null when none does
+  fallback: string; // Gamut-mapped sRGB hex, as sRGB screens show it
+  deltaE: number; // CIEDE2000 between the color and its fallback
+  message: string;
+}
+
+/**
+ * Convert a wide-gamut color to RGB
+ * Channels stay outside 0-255 for colors sRGB cannot show.
+ */
+export function wideGamutToRgb(color: WideGamutColor): RGB {
+  const rgb = colorSpaceToRgb(color.components, color.space);
+  if (color.alpha !== undefined && color.alpha < 1) {
+    rgb.a = color.alpha;
+  }
+  return rgb;
+}
+
+/**
+ * Express RGB in an RGB color space
+ * Components are rounded to 6 decimals, far below a visible difference, so
+ * conversion noise does not reach storage or exports.
+ */
+export function rgbToWideGamut(rgb: RGB, space: RGBColorSpace): WideGamutColor {
+  const components = rgbToColorSpace(rgb, space).map((c) => Math.round(c * 1e6) / 1e6 + 0) as Vec3;
+  const color: WideGamutColor = { space, components };
+  if (rgb.a !== undefined && rgb.a < 1) {
+    color.alpha = rgb.a;
+  }
+  return color;
+}
+
+/**
+ * Narrowest RGB color space whose gamut holds a color, or null when even Rec.2020 cannot
+ */
+export function getGamut(rgb: RGB): RGBColorSpace | null {
+  return RGB_COLOR_SPACES.find((space) => isInGamut(rgb, space.id))?.id ?? null;
+}
+
+/**
+ * Parse any CSS color string to a wide-gamut color
+ * `color(srgb …)`, `color(display-p3 …)` and `color(rec2020 …)` keep the space
+ * they were written in; other syntaxes are tagged with the narrowest space
+ * that holds them (Rec.2020 when none does).
+ */
+export function parseWideGamutColor(input: string): WideGamutColor | null {
+  const rgb = parseUnclampedColor(input);
+  if (!rgb) {
+    return null;
+  }
+
+  const written = /^color\(\s*(srgb|display-p3|rec2020)\s/i.exec(input.trim())?.[1].toLowerCase() as RGBColorSpace | undefined;
+  return rgbToWideGamut(rgb, written ?? getGamut(rgb) ?? 'rec2020');
+}
+
+/**
+ * Convert a wide-gamut color to another RGB color space
+ * The result is unclamped; use mapWideGamutColor to fit it into the gamut.
+ */
+export function convertWideGamutColor(color: WideGamutColor, space: RGBColorSpace): WideGamutColor {
+  return space === color.space ? color : rgbToWideGamut(wideGamutToRgb(color), space);
+}
+
+/**
+ * Fit a wide-gamut color into the gamut of an RGB color space
+ * Uses CSS Color 4 gamut mapping, which lowers OKLCH chroma at constant
+ * lightness and hue; colors already inside are only converted.
+ */
+export function mapWideGamutColor(color: WideGamutColor, space: RGBColorSpace): WideGamutColor {
+  const rgb = wideGamutToRgb(color);
+  const mapped = isInGamut(rgb, space) ? rgb : gamutMapOklch(rgbToOklch(rgb), space);
+  const result = rgbToWideGamut(mapped, space);
+  result.components = result.components.map((c) => Math.max(0, Math.min(1, c))) as Vec3;
+  if (color.alpha !== undefined) {
+    result.alpha = color.alpha;
+  }
+  return result;
+}
+
+/**
+ * Check whether a wide-gamut color fits in an RGB color space (sRGB by default)
+ */
+export function isWideGamutInGamut(color: WideGamutColor, space: RGBColorSpace = 'srgb'): boolean {
+  return isInGamut(wideGamutToRgb(color), space);
+}
+
+/**
+ * Relative luminance of a wide-gamut color
+ * Worked out from the color's linear light in its own space rather than from
+ * a clipped sRGB value, so P3 and Rec.2020 colors keep their true luminance.
+ */
+export function getWideGamutLuminance(color: WideGamutColor): number {
+  return getRelativeLuminance(wideGamutToRgb(color));
+}
+
+/**
+ * WCAG contrast ratio between two wide-gamut colors
+ */
+export function getWideGamutContrast(foreground: WideGamutColor, background: WideGamutColor): number {
+  return getContrastRatio(wideGamutToRgb(foreground), wideGamutToRgb(background));
+}
+
+/**
+ * Hex sRGB fallback of a wide-gamut color (8-digit when translucent)
+ */
+export function getSrgbFallback(color: WideGamutColor): string {
+  const mapped = mapWideGamutColor(color, 'srgb');
+  return rgbToHex(wideGamutToRgb(mapped)).toUpperCase();
+}
+
+/**
+ * Format a wide-gamut color as a CSS `color()` function
+ * Given a space, the color is first mapped into that space's gamut.
+ */
+export function formatWideGamutColor(color: WideGamutColor, space: RGBColorSpace = color.space): string {
+  const target = space === color.space ? color : mapWideGamutColor(color, space);
+  const [r, g, b] = target.components.map((c) => Number(c.toFixed(4)));
+  const alpha = target.alpha !== undefined && target.alpha < 1 ? ` / ${Number(target.alpha.toFixed(3))}` : '';
+  return `color(${target.space} ${r} ${g} ${b}${alpha})`;
+}
+
+/**
+ * Describe how a color outside sRGB will look on sRGB screens
+ * Returns null for colors sRGB can show.
+ */
+export function getGamutWarning(color: WideGamutColor): GamutWarning | null {
+  const rgb = wideGamutToRgb(color);
+  if (isInGamut(rgb, 'srgb')) {
+    return null;
+  }
+
+  const gamut = getGamut(rgb);
+  const fallback = getSrgbFallback(color);
+  const deltaE = getDeltaE2000({ r: rgb.r, g: rgb.g, b: rgb.b }, wideGamutToRgb(mapWideGamutColor(color, 'srgb')));
+  const within = gamut ? `fits ${RGB_COLOR_SPACES.find((s) => s.id === gamut)!.name}` : 'outside Rec.2020';
+  return {
+    gamut,
+    fallback,
+    deltaE,
+    message: `Out of sRGB gamut (${within}); sRGB screens show ${fallback}, ΔE ${deltaE.toFixed(1)}`,
+  };
+}